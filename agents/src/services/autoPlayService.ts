@@ -51,18 +51,18 @@ export class AutoPlayService extends Service {
       return null;
     };
 
+    // Step parameters are randomized per player, so read them from the prompt
     const getTaskInput = (desc: string): string => {
       const lower = desc.toLowerCase();
-      if (lower.includes('red wire')) return 'red';
-      if (lower.includes('blue wire')) return 'blue';
-      if (lower.includes('yellow wire')) return 'yellow';
-      if (lower.includes('green wire')) return 'green';
-      if (lower.includes('pink wire')) return 'pink';
+      const wire = lower.match(/connect (\w+) wire/);
+      if (wire) return wire[1];
       if (lower.includes('download')) return 'download';
       if (lower.includes('upload')) return 'upload';
       if (lower.includes('scan') || lower.includes('stand')) return 'scan';
-      if (lower.includes('code') || lower.includes('1-4-2-8')) return '1428';
-      if (lower.includes('coordinates') || lower.includes('x=45')) return 'X=45, Y=72';
+      const code = lower.match(/code:\s*([\d-]+)/);
+      if (code) return code[1].replace(/\D/g, '');
+      const coordinates = lower.match(/x=(\d+),\s*y=(\d+)/);
+      if (coordinates) return `X=${coordinates[1]}, Y=${coordinates[2]}`;
       if (lower.includes('asteroid') || lower.includes('destroy')) return 'destroy';
       if (lower.includes('trash') || lower.includes('pull')) return 'pull';
       if (lower.includes('hexagon') || lower.includes('tap')) return 'tap';
@@ -82,21 +82,29 @@ export class AutoPlayService extends Service {
         // Use authoritative phase from server status
         const phase = (statusData.phase as string) || 'unknown';
 
-        // CRITICAL: Dead agents do nothing
-        if (statusData.isAlive === false) {
+        // Dead crewmates keep doing tasks as ghosts; dead imposters do nothing
+        const isGhost = statusData.isAlive === false;
+        if (isGhost && (statusData.role !== 'crewmate' || phase !== 'playing')) {
           return;
         }
 
-        // Voting phase: always vote skip
+        // Voting phase: always vote skip, then lock it in when votes can change
         if (phase === 'voting') {
-          if (available.includes('vote')) {
+          const voteActions = statusData.actions as { canVote?: boolean; canLockVote?: boolean } | undefined;
+          if (voteActions?.canLockVote && available.includes('lock-vote')) {
+            await this.game.executeSkill('lock-vote', {}, 'lock vote');
+          } else if (voteActions?.canVote !== false && available.includes('vote')) {
             await this.game.executeSkill('vote', { targetId: 'skip' }, 'vote skip');
           }
           return;
         }
 
-        // Discussion phase: wait for auto-transition
+        // Discussion phase: nothing to say, so signal ready and wait for voting
         if (phase === 'discussion') {
+          const discussionActions = statusData.actions as { canReadyToVote?: boolean } | undefined;
+          if (discussionActions?.canReadyToVote && available.includes('ready-to-vote')) {
+            await this.game.executeSkill('ready-to-vote', {}, 'ready to vote');
+          }
           return;
         }
 
@@ -107,17 +115,11 @@ export class AutoPlayService extends Service {
 
         // Playing phase - priority actions
         if (phase === 'playing') {
+          const actions = statusData.actions as any;
+
           // Priority 1: Complete tasks (crewmates)
-          let canDoTasks = (statusData.canDoTasks || []) as Array<{ taskId: string; nextStepDescription?: string; description?: string }>;
-          
-          // Filter out tasks with unmet prerequisites
-          const completedIds = (statusData.completedTaskIds || []) as string[];
-          canDoTasks = canDoTasks.filter(t => {
-            if (t.taskId.includes('fuel-upload')) {
-              return completedIds.includes('fuel-download');
-            }
-            return true;
-          });
+          // The server only lists tasks whose earlier parts are done
+          const canDoTasks = (statusData.canDoTasks || actions?.canDoTasks || []) as Array<{ taskId: string; nextStepDescription?: string; description?: string }>;
 
           if (canDoTasks.length > 0 && available.includes('complete-task')) {
             const task = canDoTasks[0];
@@ -126,8 +128,18 @@ export class AutoPlayService extends Service {
             return;
           }
 
-          // Priority 2: Kill (imposters) - BEFORE venting
-          if (statusData.canKill && Array.isArray(statusData.killTargets) && statusData.killTargets.length > 0 && available.includes('kill-player')) {
+          // Ghosts only drift between rooms looking for their remaining tasks
+          if (isGhost) {
+            const ghostRooms = (actions?.canMove || []) as string[];
+            if (ghostRooms.length > 0 && available.includes('move-to-room')) {
+              const targetRoom = ghostRooms[Math.floor(Math.random() * ghostRooms.length)];
+              await this.game.executeSkill('move-to-room', { targetRoom }, `move to ${targetRoom}`);
+            }
+            return;
+          }
+
+          // Priority 2: Kill (imposters) - BEFORE venting, only with no witnesses around
+          if (statusData.canKill && actions?.canKillUnseen && Array.isArray(statusData.killTargets) && statusData.killTargets.length > 0 && available.includes('kill-player')) {
             const targetId = statusData.killTargets[0];
             await this.game.executeSkill('kill-player', { targetId }, `kill ${targetId}`);
             return;
@@ -148,16 +160,25 @@ export class AutoPlayService extends Service {
           }
 
           // Priority 5: Vent occasionally (imposter, only if no better option)
-          if (statusData.canVent && Array.isArray(statusData.ventTargets) && statusData.ventTargets.length > 0 && available.includes('use-vent') && Math.random() < 0.2) {
-            const targetRoom = statusData.ventTargets[Math.floor(Math.random() * statusData.ventTargets.length)];
-            await this.game.executeSkill('use-vent', { targetRoom }, `vent to ${targetRoom}`);
+          if (actions?.inVent && available.includes('use-vent')) {
+            // Inside: crawl once in a while, otherwise climb out
+            const ventTargets = (actions.ventTargets || []) as string[];
+            if (ventTargets.length > 0 && Math.random() < 0.5) {
+              const targetRoom = ventTargets[Math.floor(Math.random() * ventTargets.length)];
+              await this.game.executeSkill('use-vent', { action: 'move', targetRoom }, `vent to ${targetRoom}`);
+            } else {
+              await this.game.executeSkill('use-vent', { action: 'exit' }, 'exit vent');
+            }
+            return;
+          }
+          if (actions?.canVent && available.includes('use-vent') && Math.random() < 0.2) {
+            await this.game.executeSkill('use-vent', { action: 'enter' }, 'enter vent');
             return;
           }
 
           // Priority 6: Force meeting every 60s to advance game (if available)
           // CRITICAL: Check canCallMeeting from actions to respect emergency meeting limits
           const now = Date.now();
-          const actions = statusData.actions as any;
           if (now - this.lastMeetingAt > 60000 && actions?.canCallMeeting === true && available.includes('call-meeting')) {
             // Double-check phase hasn't changed since status fetch
             const currentPhase = this.game.getPhase();
@@ -133,7 +133,7 @@ async function main() {
   // Phase 2: Movement from P1
   await sendSigned(agents[0], 'move-to-room', { targetRoom: 'upper-hallway' });
 
-  // Phase 3: Call meeting and vote quickly to end round
+  // Phase 3: Call meeting and vote quickly to end round (agents[2] has not moved, so is still at the button in the cafeteria)
   await sendSigned(agents[2], 'call-meeting');
   // Give server a moment to enter discussion
   await new Promise((r) => setTimeout(r, 300));
@@ -148,6 +148,7 @@ export PORT=3000
 export DISCUSSION_TIME_MS=${DISCUSSION_TIME_MS:-4000}
 export VOTING_TIME_MS=${VOTING_TIME_MS:-3000}
 export KILL_COOLDOWN_MS=${KILL_COOLDOWN_MS:-1000}
+export EMERGENCY_COOLDOWN_MS=${EMERGENCY_COOLDOWN_MS:-0}
 if [ "$ENV_MODE" = "production" ]; then
   bun run start &
 elif [ "$ENV_MODE" = "testnet" ]; then
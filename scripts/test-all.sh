@@ -61,7 +61,7 @@ echo "────────────────────────
 # Start server directly in background (simpler than start-all.sh)
 echo "Starting test server..."
 cd "$PROJECT_ROOT/server"
-DISCUSSION_TIME_MS=4000 VOTING_TIME_MS=3000 PORT=3000 bun dist/index.js > "$LOG_FILE" 2>&1 &
+DISCUSSION_TIME_MS=4000 VOTING_TIME_MS=3000 EMERGENCY_COOLDOWN_MS=0 PORT=3000 bun dist/index.js > "$LOG_FILE" 2>&1 &
 SERVER_PID=$!
 cd "$PROJECT_ROOT"
 
@@ -154,6 +154,12 @@ async function main() {
 
   // Phase 5: Call Meeting
   console.log('📋 Phase 5: Emergency Meeting');
+  // The emergency button is in the cafeteria
+  const callerStatus = await send(crewmates[1], 'get-status');
+  const callerLoc = callerStatus.parts?.find((p: any) => p.kind === 'data')?.data?.location;
+  if (callerLoc !== 'cafeteria') {
+    await send(crewmates[1], 'move-to-room', { targetRoom: 'cafeteria' });
+  }
   await send(crewmates[1], 'call-meeting');
   console.log(`  🚨 ${crewmates[1].name} called meeting`);
   
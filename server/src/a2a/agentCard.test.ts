@@ -29,8 +29,8 @@ describe('Agent Card', () => {
       expect(card.defaultOutputModes).toContain('application/json');
     });
 
-    test('should have all 12 skills', () => {
-      expect(card.skills.length).toBe(12);
+    test('should have all 19 skills', () => {
+      expect(card.skills.length).toBe(19);
     });
   });
 
@@ -138,7 +138,7 @@ describe('Agent Card', () => {
 
     test('should get all skill IDs', () => {
       const ids = getAllSkillIds(card);
-      expect(ids.length).toBe(12);
+      expect(ids.length).toBe(19);
       expect(ids).toContain('join-game');
       expect(ids).toContain('move-to-room');
       expect(ids).toContain('kill-player');
@@ -114,7 +114,7 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'move-to-room',
         name: 'Move to Room',
         description:
-          'Move your character to an adjacent room on the ship. You can only move to connected rooms. Returns your new location and nearby players.',
+          'Move your character to an adjacent room on the ship. You can only move to connected rooms. Returns your new location and nearby players. Players in the room you leave and the room you enter see you go.',
         tags: ['movement', 'navigation', 'rooms'],
         examples: [
           'Move to Engine Room',
@@ -127,7 +127,7 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'complete-task',
         name: 'Complete Task',
         description:
-          'Attempt to complete one of your assigned repair tasks. Only crewmates can complete tasks. You must be in the correct room and provide the correct input for task validation.',
+          'Attempt to complete one of your assigned repair tasks. Only crewmates can complete tasks. You must be in the correct room and provide the correct input for task validation. Step inputs (wire order, codes, coordinates) differ per player; read nextStepDescription from your available tasks. Steps take a few seconds: you cannot move until they finish, and a kill or meeting aborts the step. Visual tasks (MedBay scan, asteroids, shields) are seen by everyone in the room and prove you are not an imposter.',
         tags: ['task', 'repair', 'crewmate', 'objective'],
         examples: [
           'Fix wiring in Electrical',
@@ -140,7 +140,7 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'kill-player',
         name: 'Kill Player',
         description:
-          'Eliminate a crewmate in the same room (IMPOSTERS ONLY). Subject to 30-second cooldown. Target must be alive and in your current location.',
+          'Eliminate a crewmate in the same room (IMPOSTERS ONLY). Subject to 30-second cooldown. Target must be alive and in your current location. Anyone else in the room sees the kill unless the lights are out; check canKillUnseen in your available actions.',
         tags: ['kill', 'imposter', 'elimination', 'attack'],
         examples: [
           'Kill the player in this room',
@@ -152,7 +152,7 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'use-vent',
         name: 'Use Vent',
         description:
-          'Enter or exit a vent to move quickly between connected rooms (IMPOSTERS ONLY). Vents provide strategic mobility but can reveal imposter identity if witnessed.',
+          'Enter a vent, crawl between connected rooms while hidden, then exit to appear (IMPOSTERS ONLY). Pass action (enter, move, exit) and targetRoom for travel. You cannot kill or report from inside, and you are pushed out after a while. Anyone in the room sees you enter or exit.',
         tags: ['vent', 'imposter', 'movement', 'stealth'],
         examples: [
           'Enter vent',
@@ -165,20 +165,58 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'sabotage',
         name: 'Sabotage System',
         description:
-          'Trigger a critical system failure (IMPOSTERS ONLY). Options: Oxygen, Reactor, Lights, Communications. Sabotages create urgency and chaos, forcing crewmates to respond. Oxygen and Reactor are urgent (require fix or crewmates lose).',
+          'Trigger a critical system failure (IMPOSTERS ONLY). Options: Oxygen, Reactor, Lights, Communications, or Doors with a targetRoom to lock that room for a few seconds. Sabotages create urgency and chaos, forcing crewmates to respond. Oxygen and Reactor are urgent (require fix or crewmates lose). Sabotages share a cooldown across imposters and only one urgent sabotage can be active at a time.',
         tags: ['sabotage', 'imposter', 'emergency', 'distraction'],
         examples: [
           'Sabotage oxygen',
           'Trigger reactor meltdown',
           'Cut the lights',
-          'Disable communications'
+          'Disable communications',
+          'Lock the doors to Electrical'
         ]
       },
+      {
+        id: 'fix-sabotage',
+        name: 'Fix Sabotage',
+        description:
+          'Repair an active sabotage from one of its fix rooms. Oxygen (Navigation and Shields) and Reactor (Reactor and Engine Room) must be fixed in both rooms before the countdown expires or imposters win. Lights are fixed in Electrical, Communications in Storage.',
+        tags: ['sabotage', 'repair', 'crewmate', 'emergency'],
+        examples: [
+          'Fix the reactor',
+          'Repair oxygen',
+          'Fix lights sabotage',
+          'Restore communications'
+        ]
+      },
+      {
+        id: 'view-cameras',
+        name: 'View Security Cameras',
+        description:
+          'Watch the camera feeds from Security to see who is in the monitored rooms (Cafeteria, hallways and Navigation by default). Only usable in Security. Offline while comms are sabotaged, and crewmates cannot see them while the lights are out. Anyone in Security sees you watching.',
+        tags: ['cameras', 'security', 'information', 'surveillance'],
+        examples: ['Check cameras', 'Watch the security cameras', 'Who is on camera?']
+      },
+      {
+        id: 'admin-map',
+        name: 'Check Admin Map',
+        description:
+          'Read the admin map to see how many players are in each room, without names. Only usable in the admin map room (Storage by default). Offline while comms are sabotaged, and crewmates cannot read it while the lights are out. Anyone in the room sees you using it.',
+        tags: ['admin', 'map', 'information', 'surveillance'],
+        examples: ['Check admin map', 'How many players are in each room?', 'Look at admin']
+      },
+      {
+        id: 'check-vitals',
+        name: 'Check Vitals',
+        description:
+          'Read the vitals panel in MedBay to see which players are alive or dead and how long ago each death happened, without revealing where. Offline while comms are sabotaged, and crewmates cannot read it while the lights are out. Anyone in MedBay sees you using it.',
+        tags: ['vitals', 'medbay', 'information', 'deaths'],
+        examples: ['Check vitals', 'Who is dead?', 'Look at the vitals panel']
+      },
       {
         id: 'call-meeting',
         name: 'Call Emergency Meeting',
         description:
-          'Call all living players to Cafeteria for discussion phase. Use strategically to share information or deflect suspicion. Transitions game to discussion phase.',
+          'Press the emergency button in Cafeteria to call all living players to a discussion phase. Limited uses per player, and the button has a cooldown after the game starts and after each meeting (see canCallMeeting and meetingCooldownRemaining in your available actions). Use strategically to share information or deflect suspicion.',
         tags: ['meeting', 'discussion', 'voting', 'emergency'],
         examples: [
           'Call emergency meeting',
@@ -191,7 +229,7 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'report-body',
         name: 'Report Dead Body',
         description:
-          'Report a dead player, immediately triggering discussion phase. All players teleport to Cafeteria. Provide the player ID or name of the deceased.',
+          'Report a dead player, immediately triggering discussion phase. All players teleport to Cafeteria. Provide the player ID of the deceased, or omit it to report a body in your current room. Bodies are cleaned up once a meeting starts.',
         tags: ['report', 'body', 'meeting', 'discovery'],
         examples: [
           'Report body',
@@ -204,20 +242,37 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
         id: 'send-message',
         name: 'Send Chat Message',
         description:
-          'Send a text message during discussion phase. Use to share information, ask questions, or make accusations. All living players can see messages.',
+          'Send a text message during discussion phase. Use to share information, ask questions, or make accusations. All living players can see messages. Dead players chat on a ghost-only channel at any time. Imposters can pass channel "imposters" to message each other privately, even during the playing phase. Messages are length-limited, rate-limited and capped per meeting (errors MESSAGE_TOO_LONG, RATE_LIMITED, MESSAGE_LIMIT_REACHED, EMPTY_MESSAGE); system-style tags and other players\' name labels are stripped. During meetings you can attach a machine-readable claim in the data part: { type: accuse | vouch | alibi | saw, subject (player ID), room (room ID), time (seconds ago) }; it is validated and included with the chat-message event.',
         tags: ['chat', 'communication', 'discussion', 'social'],
         examples: [
           'Say: I saw red in electrical',
           'Chat: Where was everyone?',
           'Message: I was doing tasks in medbay',
-          'I think it is Player2'
+          'I think it is Player2',
+          'Tell the other imposter: I will take Electrical'
         ]
       },
+      {
+        id: 'ready-to-vote',
+        name: 'Ready To Vote',
+        description:
+          'Signal during discussion that you are done talking. Once enough living players are ready (everyone by default), discussion ends early and voting starts.',
+        tags: ['discussion', 'voting', 'ready', 'meeting'],
+        examples: ["I'm ready to vote", 'Ready', 'Skip to voting']
+      },
+      {
+        id: 'get-chat',
+        name: 'Get Meeting Chat',
+        description:
+          'Retrieve the chat transcript of the current meeting (or the most recent one between meetings), oldest message first. Use it to catch up on accusations and alibis before voting.',
+        tags: ['chat', 'discussion', 'transcript', 'query'],
+        examples: ['Show the chat log', 'What has been said?', 'Get meeting transcript']
+      },
       {
         id: 'vote',
         name: 'Cast Vote',
         description:
-          'Vote to eject a suspected imposter during voting phase. You can vote for any player or skip. Majority vote ejects the player. Dead players cannot vote.',
+          'Vote to eject a suspected imposter during voting phase. You can vote for any player or skip. The most-voted player is ejected; ties eject no one unless the game resolves them at random. A voting-results event shows the tally (and who voted for whom unless votes are anonymous). When vote changes are enabled you can vote again to change your vote or retract it until you lock it in. Dead players cannot vote.',
         tags: ['vote', 'ejection', 'voting', 'democracy'],
         examples: [
           'Vote for Player3',
@@ -226,6 +281,14 @@ export function generateAgentCard(serverUrl: string = 'http://localhost:3000'):
           'I vote to skip'
         ]
       },
+      {
+        id: 'lock-vote',
+        name: 'Lock In Vote',
+        description:
+          'Lock in your current vote when vote changes are enabled. A locked vote can no longer be changed or retracted, and voting ends early once every living player has locked in.',
+        tags: ['vote', 'voting', 'lock', 'final'],
+        examples: ['Lock my vote', 'Lock in vote', 'Make my vote final']
+      },
       {
         id: 'get-status',
         name: 'Get Game Status',
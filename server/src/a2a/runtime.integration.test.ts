@@ -203,7 +203,7 @@ describe('Runtime Integration - Full Game Flow', () => {
       
       const card = await response.json();
       expect(card.protocolVersion).toBe('0.3.0');
-      expect(card.skills.length).toBe(12);
+      expect(card.skills.length).toBe(19);
     });
   });
 
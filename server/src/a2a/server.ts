@@ -645,6 +645,10 @@ export class A2AServer {
       recipients = Array.from(players.values())
         .filter((p) => p.role === 'imposter')
         .map((p) => p.agentId);
+    } else if (event.visibility === 'ghosts') {
+      recipients = Array.from(players.values())
+        .filter((p) => !p.isAlive)
+        .map((p) => p.agentId);
     } else if (event.visibility === 'specific' && event.specificPlayers) {
       recipients = event.specificPlayers;
     } else {
@@ -694,28 +698,64 @@ export class A2AServer {
         return `You are a ${event.data.role}${event.data.role === 'imposter' ? ' 🔴' : ' 🔵'}`;
       case 'player-moved':
         return event.data.from && event.data.to ? `Player moved: ${event.data.from} → ${event.data.to}` : 'You moved';
+      case 'player-entered-room':
+        return `🚶 ${event.data.playerName} entered from ${event.data.from}`;
+      case 'player-exited-room':
+        return `🚶 ${event.data.playerName} left towards ${event.data.to}`;
       case 'task-completed':
         return event.data.taskDescription ? `✅ Task completed: ${event.data.taskDescription}` : '✅ Task completed';
+      case 'visual-task-observed':
+        return `👀 ${event.data.playerName} completed a visual task: ${event.data.taskDescription}`;
+      case 'kill-witnessed':
+        return `👁️ You saw ${event.data.killerName} kill ${event.data.victimName} in ${event.data.location}!`;
       case 'player-killed':
         return event.data.location ? `💀 A player was killed in ${event.data.location}` : '💀 A player was killed';
       case 'emergency-meeting':
         return `🚨 Emergency meeting called!`;
       case 'body-reported':
         return `🚨 Dead body reported!`;
+      case 'player-ready':
+        return `✋ A player is ready to vote (${event.data.readyCount}${event.data.readyRequired ? `/${event.data.readyRequired}` : ''})`;
       case 'voting-started':
         return `🗳️ Voting phase started`;
       case 'vote-cast':
-        return `🗳️ Vote cast (${event.data.voteCount}/${event.data.totalVoters})`;
+        return `🗳️ Vote ${event.data.changed ? 'changed' : 'cast'} (${event.data.voteCount}/${event.data.totalVoters})`;
+      case 'vote-retracted':
+        return `🗳️ Vote retracted (${event.data.voteCount}/${event.data.totalVoters})`;
+      case 'vote-locked':
+        return `🔒 Vote locked in (${event.data.lockedCount}/${event.data.totalVoters})`;
+      case 'voting-results': {
+        const tally = event.data.tally as Record<string, number>;
+        const counts = Object.entries(tally).map(([target, count]) => `${target}: ${count}`).join(', ');
+        return `📊 Voting results - ${counts}${event.data.tied ? ' (tie)' : ''}`;
+      }
       case 'sabotage-triggered':
         return `🚨 Sabotage: ${event.data.system}${event.data.urgent ? ' (urgent)' : ''}`;
+      case 'sabotage-fixed':
+        return `🔧 Sabotage fixed: ${event.data.system}`;
+      case 'doors-locked':
+        return `🚪 Doors locked: ${event.data.room}`;
+      case 'doors-opened':
+        return `🚪 Doors opened: ${event.data.room}`;
+      case 'vent-witnessed':
+        return `🕳️ You saw ${event.data.playerName} ${event.data.action === 'enter' ? 'climb into' : 'climb out of'} a vent in ${event.data.room}!`;
+      case 'device-used': {
+        const device =
+          event.data.device === 'cameras' ? 'security cameras' : event.data.device === 'vitals' ? 'vitals panel' : 'admin map';
+        return `📡 You saw ${event.data.playerName} check the ${device} in ${event.data.room}`;
+      }
       case 'vent-used':
         return event.data.from && event.data.to ? `Vent used: ${event.data.from} → ${event.data.to}` : 'Vent used';
       case 'player-ejected':
         return event.data.skipped
           ? '⏭️ No one was ejected (tie/skip)'
-          : `🚀 Player ejected. ${event.data.wasImposter ? 'Was imposter!' : 'Was not imposter.'}`;
+          : event.data.wasImposter === undefined
+            ? `🚀 ${event.data.playerName || 'Player'} was ejected.`
+            : `🚀 ${event.data.playerName || 'Player'} was ejected. ${event.data.wasImposter ? 'Was imposter!' : 'Was not imposter.'}`;
+      case 'chat-message':
+        return `💬 ${event.data.channel === 'ghosts' ? '👻 ' : event.data.channel === 'imposters' ? '🔪 ' : ''}${event.data.senderName}: ${event.data.message}`;
       case 'game-ended':
-        return `🏁 Game ended! ${event.data.winner} win!`;
+        return `🏁 Game ended! ${event.data.winner} win${event.data.winReason ? ` (${event.data.winReason})` : ''}!`;
       default:
         return `Game event: ${event.type}`;
     }
@@ -1,6 +1,6 @@
 /**
  * Skill Handlers Tests - 100% Coverage
- * Tests all 12 skill handlers with all code paths
+ * Tests all 19 skill handlers with all code paths
  */
 
 import { describe, test, expect, beforeEach } from 'bun:test';
@@ -56,6 +56,29 @@ describe('Skill Handlers', () => {
       expect(extractSkillId(msg)).toBe('kill-player');
     });
 
+    test('should infer fix-sabotage from the sabotaged system', () => {
+      for (const text of ['Fix the reactor', 'Repair oxygen', 'Fix lights sabotage', 'Restore communications']) {
+        const msg = createMessage('user', [createTextPart(text)], 'msg-1');
+        expect(extractSkillId(msg)).toBe('fix-sabotage');
+      }
+    });
+
+    test('should only infer lock-vote from the word lock', () => {
+      const lock = createMessage('user', [createTextPart('lock my vote')], 'msg-1');
+      expect(extractSkillId(lock)).toBe('lock-vote');
+
+      const block = createMessage('user', [createTextPart('vote agent-3, they tried to block the door')], 'msg-1');
+      expect(extractSkillId(block)).toBe('vote');
+    });
+
+    test('should only infer ready-to-vote from the word ready', () => {
+      const ready = createMessage('user', [createTextPart("I'm ready to vote")], 'msg-1');
+      expect(extractSkillId(ready)).toBe('ready-to-vote');
+
+      const already = createMessage('user', [createTextPart('vote for agent-3, I was already in electrical')], 'msg-1');
+      expect(extractSkillId(already)).toBe('vote');
+    });
+
     test('should default to get-status for unknown', () => {
       const msg = createMessage('user', [createTextPart('hello')], 'msg-1');
       expect(extractSkillId(msg)).toBe('get-status');
@@ -257,6 +280,152 @@ describe('Skill Handlers', () => {
     });
   });
 
+  describe('use-vent skill', () => {
+    test('should not enter the vent when the move is rejected', async () => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+
+      const [imposter, bystander] = Array.from(engine.getState().players.values());
+      imposter.role = 'imposter';
+      imposter.location = 'electrical';
+      bystander.location = 'electrical';
+      const events: string[] = [];
+      engine.onEvent((event) => events.push(event.type));
+
+      const msg = createMessage('user', [createDataPart({ action: 'move', targetRoom: 'cafeteria' })], 'msg-1');
+      const result = await executeSkill('use-vent', engine, mockRegistry as ERC8004Registry, imposter.agentId, msg);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('VENT_FAILED');
+      expect(engine.isInVent(imposter)).toBe(false);
+      expect(events).not.toContain('vent-witnessed');
+    });
+  });
+
+  describe('fix-sabotage skill', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+
+      const players = Array.from(engine.getState().players.values());
+      players[0].role = 'imposter';
+      players[1].role = 'crewmate';
+      engine.sabotageSystem(players[0].agentId, 'lights');
+    });
+
+    test('should fix sabotage from the fix room', async () => {
+      const crewmate = Array.from(engine.getState().players.values())[1];
+      crewmate.location = 'electrical';
+
+      const msg = createMessage('user', [createDataPart({ system: 'lights' })], 'msg-1');
+      const result = await executeSkill(
+        'fix-sabotage',
+        engine,
+        mockRegistry as ERC8004Registry,
+        crewmate.agentId,
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.sabotageFixed).toBe(true);
+      expect(engine.getState().sabotages.has('lights')).toBe(false);
+    });
+
+    test('should fail outside the fix room', async () => {
+      const crewmate = Array.from(engine.getState().players.values())[1];
+
+      const msg = createMessage('user', [createTextPart('fix the lights')], 'msg-1');
+      const result = await executeSkill(
+        'fix-sabotage',
+        engine,
+        mockRegistry as ERC8004Registry,
+        crewmate.agentId,
+        msg
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('FIX_FAILED');
+    });
+  });
+
+  describe('view-cameras, admin-map and check-vitals skills', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+    });
+
+    test('should return camera feeds from Security', async () => {
+      engine.getPlayer('agent-1')!.location = 'security';
+
+      const msg = createMessage('user', [createTextPart('check cameras')], 'msg-1');
+      const result = await executeSkill(
+        'view-cameras',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      const feeds = result.data?.feeds as Array<{ roomId: string; players: string[] }>;
+      expect(feeds.find((f) => f.roomId === 'cafeteria')?.players).toHaveLength(4);
+    });
+
+    test('should fail outside Security', async () => {
+      const msg = createMessage('user', [createTextPart('check cameras')], 'msg-1');
+      const result = await executeSkill(
+        'view-cameras',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('CAMERAS_UNAVAILABLE');
+    });
+
+    test('should return per-room counts from the admin map', async () => {
+      engine.getPlayer('agent-1')!.location = 'storage';
+
+      const msg = createMessage('user', [createTextPart('check admin map')], 'msg-1');
+      const result = await executeSkill(
+        'admin-map',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      const rooms = result.data?.rooms as Array<{ roomId: string; playerCount: number }>;
+      expect(rooms.find((r) => r.roomId === 'cafeteria')?.playerCount).toBe(4);
+      expect(rooms.find((r) => r.roomId === 'storage')?.playerCount).toBe(1);
+    });
+
+    test('should return vitals from MedBay', async () => {
+      engine.getPlayer('agent-1')!.location = 'medbay';
+
+      const msg = createMessage('user', [createTextPart('check vitals')], 'msg-1');
+      const result = await executeSkill(
+        'check-vitals',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.vitals).toHaveLength(5);
+    });
+  });
+
   describe('get-status skill', () => {
     beforeEach(() => {
       for (let i = 1; i <= 5; i++) {
@@ -368,7 +537,202 @@ describe('Skill Handlers', () => {
     });
   });
 
-  describe('All 12 skills defined', () => {
+  describe('send-message and get-chat skills', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+    });
+
+    test('should only send messages during discussion', async () => {
+      const msg = createMessage('user', [createTextPart('I saw P2 vent')], 'msg-1');
+      const result = await executeSkill(
+        'send-message',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('WRONG_PHASE');
+    });
+
+    test('should record messages in the meeting transcript', async () => {
+      engine.getState().phase = 'discussion';
+
+      const msg = createMessage('user', [createTextPart('I saw P2 vent')], 'msg-1');
+      const sent = await executeSkill(
+        'send-message',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+      expect(sent.success).toBe(true);
+
+      const chat = await executeSkill(
+        'get-chat',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-2',
+        createMessage('user', [createTextPart('show the chat log')], 'msg-2')
+      );
+      const messages = chat.data?.messages as Array<{ senderName: string; message: string }>;
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({ senderName: 'P1', message: 'I saw P2 vent' });
+    });
+  });
+
+  describe('send-message claims', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+      engine.getState().phase = 'discussion';
+    });
+
+    test('should pass structured claims through', async () => {
+      const msg = createMessage('user', [createDataPart({ claim: { type: 'vouch', subject: 'agent-2' } })], 'msg-1');
+      const result = await executeSkill(
+        'send-message',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.chatMessage).toBe('I vouch for P2');
+      expect(result.data?.claim).toEqual({ type: 'vouch', subject: 'agent-2' });
+    });
+
+    test('should reject invalid claims', async () => {
+      const msg = createMessage('user', [createDataPart({ message: 'hi', claim: { type: 'vouch' } })], 'msg-1');
+      const result = await executeSkill(
+        'send-message',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('INVALID_CLAIM');
+    });
+  });
+
+  describe('send-message imposter channel', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+      const players = Array.from(engine.getState().players.values());
+      players.forEach((p, i) => (p.role = i === 0 ? 'imposter' : 'crewmate'));
+    });
+
+    test('should accept imposter messages during play', async () => {
+      const msg = createMessage('user', [createDataPart({ channel: 'imposters', message: 'Split up' })], 'msg-1');
+      const result = await executeSkill(
+        'send-message',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.channel).toBe('imposters');
+    });
+
+    test('should reject crewmates on the imposter channel', async () => {
+      const msg = createMessage('user', [createDataPart({ channel: 'imposters', message: 'Hi?' })], 'msg-1');
+      const result = await executeSkill(
+        'send-message',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-2',
+        msg
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('CHANNEL_UNAVAILABLE');
+    });
+  });
+
+  describe('ready-to-vote skill', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+    });
+
+    test('should fail outside discussion', async () => {
+      const msg = createMessage('user', [createTextPart('ready to vote')], 'msg-1');
+      const result = await executeSkill(
+        'ready-to-vote',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('READY_FAILED');
+    });
+
+    test('should mark the player ready during discussion', async () => {
+      engine.getState().phase = 'discussion';
+
+      const msg = createMessage('user', [createTextPart('ready to vote')], 'msg-1');
+      const result = await executeSkill(
+        'ready-to-vote',
+        engine,
+        mockRegistry as ERC8004Registry,
+        'agent-1',
+        msg
+      );
+
+      expect(result.success).toBe(true);
+      expect(engine.getState().readyToVote.has('agent-1')).toBe(true);
+    });
+  });
+
+  describe('lock-vote skill', () => {
+    beforeEach(() => {
+      engine = new GameEngine({ allowVoteChanges: true });
+      for (let i = 1; i <= 5; i++) {
+        engine.addPlayer(`agent-${i}`, `0x${i}`, `p${i}.local`, `P${i}`);
+      }
+      engine.startGame();
+      engine.getState().phase = 'voting';
+    });
+
+    test('should retract and lock votes', async () => {
+      const run = (skillId: string, text: string) =>
+        executeSkill(
+          skillId,
+          engine,
+          mockRegistry as ERC8004Registry,
+          'agent-1',
+          createMessage('user', [createTextPart(text)], 'msg-1')
+        );
+
+      expect((await run('vote', 'vote for player 2')).success).toBe(true);
+      expect((await run('vote', 'retract my vote')).message).toBe('Vote retracted');
+      expect((await run('lock-vote', 'lock my vote')).error).toBe('LOCK_FAILED');
+
+      await run('vote', 'vote for player 3');
+      expect((await run('lock-vote', 'lock my vote')).success).toBe(true);
+      expect(engine.getState().lockedVotes.has('agent-1')).toBe(true);
+    });
+  });
+
+  describe('All 19 skills defined', () => {
     test('should have handler for each skill', () => {
       const requiredSkills = [
         'join-game',
@@ -378,10 +742,17 @@ describe('Skill Handlers', () => {
         'kill-player',
         'use-vent',
         'sabotage',
+        'fix-sabotage',
+        'view-cameras',
+        'admin-map',
+        'check-vitals',
         'call-meeting',
         'report-body',
         'send-message',
+        'get-chat',
         'vote',
+        'lock-vote',
+        'ready-to-vote',
         'get-status'
       ];
 
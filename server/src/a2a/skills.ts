@@ -6,7 +6,8 @@
 import type { GameEngine } from '../game/engine.js';
 import type { ERC8004Registry } from '../blockchain/registry.js';
 import type { Message, Part, DataPart } from './types.js';
-import type { GameActionResult } from '@elizagames/shared';
+import type { ChatClaim, GameActionResult, SabotageSystem } from '@elizagames/shared';
+import { isSabotageSystem, getRemainingFixRooms } from '../game/sabotage.js';
 
 export type SkillHandler = (
   engine: GameEngine,
@@ -171,17 +172,13 @@ export const skillHandlers: Record<string, SkillHandler> = {
     }
 
     const playerState = engine.getPlayerState(agentId);
-    const nearbyPlayers = engine.getPlayersInRoom(targetRoom);
-    const player = engine.getPlayer(agentId);
 
     return {
       success: true,
       message: result.message,
       data: {
         location: targetRoom,
-        nearbyPlayers: nearbyPlayers
-          .map((p) => p.name)
-          .filter((n) => player && n !== player.name),
+        nearbyPlayers: playerState?.nearbyPlayers || [],
         canVent: (playerState?.canKill && engine.getState().ship.rooms.get(targetRoom)?.hasVent) || false
       }
     };
@@ -214,6 +211,12 @@ export const skillHandlers: Record<string, SkillHandler> = {
           taskId
         }
       }),
+      ...(result.inProgress && {
+        data: {
+          taskInProgress: true,
+          taskId
+        }
+      }),
       ...(!result.success && { error: 'TASK_FAILED' })
     };
   },
@@ -247,8 +250,38 @@ export const skillHandlers: Record<string, SkillHandler> = {
     const data = extractDataFromParts(message.parts);
     const text = extractTextFromParts(message.parts);
 
-    const action = text.includes('exit') ? 'exit' : 'enter';
     const targetRoom = data.targetRoom as string | undefined;
+    const player = engine.getPlayer(agentId);
+    const inVent = player ? engine.isInVent(player) : false;
+
+    // Explicit action wins; otherwise a target means travel, and entering happens first if needed
+    let action: 'enter' | 'move' | 'exit' = targetRoom ? 'move' : 'enter';
+    if (data.action === 'enter' || data.action === 'move' || data.action === 'exit') {
+      action = data.action;
+    } else if (text.toLowerCase().includes('exit')) {
+      action = 'exit';
+    }
+
+    if (action === 'move' && !inVent) {
+      // Check the route before entering, so a rejected move does not leave the imposter seen and inside
+      const ventConnections = player ? engine.getState().ship.vents.get(player.location) : undefined;
+      if (ventConnections && (!targetRoom || !ventConnections.includes(targetRoom))) {
+        return {
+          success: false,
+          message: targetRoom ? 'Cannot vent to that room from here' : 'Target room required for vent travel',
+          error: 'VENT_FAILED'
+        };
+      }
+
+      const entered = engine.useVent(agentId, 'enter');
+      if (!entered.success) {
+        return {
+          success: false,
+          message: entered.message,
+          error: 'VENT_FAILED'
+        };
+      }
+    }
 
     const result = engine.useVent(agentId, action, targetRoom);
 
@@ -264,11 +297,30 @@ export const skillHandlers: Record<string, SkillHandler> = {
     const data = extractDataFromParts(message.parts);
     const text = extractTextFromParts(message.parts);
 
-    let system: 'oxygen' | 'reactor' | 'lights' | 'comms' = 'oxygen';
+    // Doors lock a single room instead of breaking a system
+    if (data.system === 'doors' || (!data.system && text.toLowerCase().includes('door'))) {
+      const targetRoom = (data.targetRoom as string) || parseRoomName(text);
+      if (!targetRoom) {
+        return {
+          success: false,
+          message: 'Target room required to lock doors',
+          error: 'INVALID_ROOM'
+        };
+      }
+
+      const result = engine.sabotageDoors(agentId, targetRoom);
+
+      return {
+        success: result.success,
+        message: result.message,
+        ...(!result.success && { error: 'SABOTAGE_FAILED' })
+      };
+    }
+
+    let system: SabotageSystem = 'oxygen';
     
-    const dataSystem = data.system as string | undefined;
-    if (dataSystem && ['oxygen', 'reactor', 'lights', 'comms'].includes(dataSystem)) {
-      system = dataSystem as 'oxygen' | 'reactor' | 'lights' | 'comms';
+    if (isSabotageSystem(data.system)) {
+      system = data.system;
     } else {
       // Parse from text
       if (text.includes('reactor')) system = 'reactor';
@@ -286,6 +338,69 @@ export const skillHandlers: Record<string, SkillHandler> = {
     };
   },
 
+  // Fix Sabotage
+  'fix-sabotage': async (engine, registry, agentId, message) => {
+    const data = extractDataFromParts(message.parts);
+    const text = extractTextFromParts(message.parts).toLowerCase();
+
+    let system: SabotageSystem | undefined;
+    if (isSabotageSystem(data.system)) {
+      system = data.system;
+    } else if (text.includes('reactor')) system = 'reactor';
+    else if (text.includes('light')) system = 'lights';
+    else if (text.includes('comm')) system = 'comms';
+    else if (text.includes('oxygen') || text.includes('o2')) system = 'oxygen';
+
+    const result = engine.fixSabotage(agentId, system);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(result.success && {
+        data: {
+          sabotageFixed: result.fixed === true
+        }
+      }),
+      ...(!result.success && { error: 'FIX_FAILED' })
+    };
+  },
+
+  // View Cameras
+  'view-cameras': async (engine, registry, agentId, message) => {
+    const result = engine.viewCameras(agentId);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(result.success && { data: { feeds: result.feeds } }),
+      ...(!result.success && { error: 'CAMERAS_UNAVAILABLE' })
+    };
+  },
+
+  // Admin Map
+  'admin-map': async (engine, registry, agentId, message) => {
+    const result = engine.viewAdminMap(agentId);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(result.success && { data: { rooms: result.rooms } }),
+      ...(!result.success && { error: 'ADMIN_MAP_UNAVAILABLE' })
+    };
+  },
+
+  // Check Vitals
+  'check-vitals': async (engine, registry, agentId, message) => {
+    const result = engine.viewVitals(agentId);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(result.success && { data: { vitals: result.vitals } }),
+      ...(!result.success && { error: 'VITALS_UNAVAILABLE' })
+    };
+  },
+
   // Call Meeting
   'call-meeting': async (engine, registry, agentId, message) => {
     const result = engine.callEmergencyMeeting(agentId);
@@ -300,7 +415,9 @@ export const skillHandlers: Record<string, SkillHandler> = {
   // Report Body
   'report-body': async (engine, registry, agentId, message) => {
     const data = extractDataFromParts(message.parts);
-    const bodyId = data.bodyId as string;
+
+    // Default to a body in the reporter's room when none is named
+    const bodyId = (data.bodyId as string) || engine.getAvailableActions(agentId).deadBodies[0];
 
     if (!bodyId) {
       return {
@@ -324,16 +441,7 @@ export const skillHandlers: Record<string, SkillHandler> = {
     const text = extractTextFromParts(message.parts);
     const data = extractDataFromParts(message.parts);
     
-    const chatMessage = (data.message as string) || text;
-
-    const state = engine.getState();
-    if (state.phase !== 'discussion') {
-      return {
-        success: false,
-        message: 'Can only send messages during discussion phase',
-        error: 'WRONG_PHASE'
-      };
-    }
+    const chatMessage = typeof data.message === 'string' ? data.message : text;
 
     const player = engine.getPlayer(agentId);
     if (!player) {
@@ -344,22 +452,78 @@ export const skillHandlers: Record<string, SkillHandler> = {
       };
     }
 
+    // The engine sanitizes messages, so data.chatMessage is what was actually sent
+    // Imposters coordinate privately, in any phase
+    if (data.channel === 'imposters') {
+      const result = engine.postImposterMessage(agentId, chatMessage);
+      return {
+        success: result.success,
+        message: result.message,
+        ...(result.success && {
+          data: {
+            chatMessage: result.text,
+            senderId: agentId,
+            senderName: player.name,
+            channel: 'imposters'
+          }
+        }),
+        ...(!result.success && { error: result.error ?? 'CHANNEL_UNAVAILABLE' })
+      };
+    }
+
+    // Dead players talk on the ghost-only channel, in any phase
     if (!player.isAlive) {
+      const result = engine.postGhostMessage(agentId, chatMessage);
+      return {
+        success: result.success,
+        message: result.message,
+        ...(result.success && {
+          data: {
+            chatMessage: result.text,
+            senderId: agentId,
+            senderName: player.name,
+            channel: 'ghosts'
+          }
+        }),
+        ...(!result.success && { error: result.error ?? 'WRONG_PHASE' })
+      };
+    }
+
+    // Optional machine-readable claim, validated by the engine
+    const result = engine.postChatMessage(agentId, chatMessage, data.claim as ChatClaim | undefined);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(result.success && {
+        data: {
+          chatMessage: result.chatMessage?.message,
+          senderId: agentId,
+          senderName: player.name,
+          ...(result.chatMessage?.claim && { claim: result.chatMessage.claim })
+        }
+      }),
+      ...(!result.success && { error: result.error ?? 'WRONG_PHASE' })
+    };
+  },
+
+  // Get Chat
+  'get-chat': async (engine, registry, agentId, message) => {
+    if (!engine.getPlayer(agentId)) {
       return {
         success: false,
-        message: 'Dead players cannot send chat messages',
-        error: 'DEAD_NO_CHAT'
+        message: 'Player not found',
+        error: 'PLAYER_NOT_FOUND'
       };
     }
 
-    // Broadcast chat message as event (handled by caller)
+    const chatLog = engine.getChatLog();
+
     return {
       success: true,
-      message: 'Message sent',
+      message: `${chatLog.length} message${chatLog.length === 1 ? '' : 's'} this meeting`,
       data: {
-        chatMessage,
-        senderId: agentId,
-        senderName: player.name
+        messages: chatLog
       }
     };
   },
@@ -368,6 +532,16 @@ export const skillHandlers: Record<string, SkillHandler> = {
   'vote': async (engine, registry, agentId, message) => {
     const data = extractDataFromParts(message.parts);
     const text = extractTextFromParts(message.parts);
+
+    // Retract a vote (only when vote changes are enabled)
+    if (data.retract === true || /\b(retract|unvote)\b/i.test(text)) {
+      const result = engine.retractVote(agentId);
+      return {
+        success: result.success,
+        message: result.message,
+        ...(!result.success && { error: 'RETRACT_FAILED' })
+      };
+    }
     
     let targetId = data.targetId as string;
     
@@ -401,6 +575,28 @@ export const skillHandlers: Record<string, SkillHandler> = {
     };
   },
 
+  // Ready To Vote
+  'ready-to-vote': async (engine, registry, agentId, message) => {
+    const result = engine.markReadyToVote(agentId);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(!result.success && { error: 'READY_FAILED' })
+    };
+  },
+
+  // Lock Vote
+  'lock-vote': async (engine, registry, agentId, message) => {
+    const result = engine.lockVote(agentId);
+
+    return {
+      success: result.success,
+      message: result.message,
+      ...(!result.success && { error: 'LOCK_FAILED' })
+    };
+  },
+
   // Get Status
   'get-status': async (engine, registry, agentId, message) => {
     const state = engine.getState();
@@ -427,17 +623,35 @@ export const skillHandlers: Record<string, SkillHandler> = {
       location: player.location,
       roomName: room?.name || player.location,
       nearbyPlayers: playerState?.nearbyPlayers || [],
-      taskIds: player.taskIds,
-      completedTaskIds: player.completedTaskIds,
+      visionReduced: engine.hasReducedVision(player),
+      commsDown: engine.hasCommsBlackout(player),
       playersAlive: Array.from(state.players.values()).filter((p) => p.isAlive).length,
       playersTotal: state.players.size,
+      sabotages: Array.from(state.sabotages.values()).map((s) => ({
+        system: s.system,
+        fixRooms: getRemainingFixRooms(s),
+        ...(s.deadline !== undefined && {
+          timeRemaining: Math.max(0, Math.ceil((s.deadline - Date.now()) / 1000))
+        })
+      })),
+      lockedRooms: Array.from(engine.getLockedRooms()),
       actions,
     };
 
-    // Add optional fields
+    // Add optional fields (task info is hidden from crewmates while comms are down)
+    if (!engine.hasCommsBlackout(player)) {
+      statusData.taskIds = player.taskIds;
+      statusData.completedTaskIds = player.completedTaskIds;
+    }
     if (playerState?.tasksRemaining !== undefined) {
       statusData.tasksRemaining = playerState.tasksRemaining;
     }
+    if (player.activeTask) {
+      statusData.taskInProgress = {
+        taskId: player.activeTask.taskId,
+        timeRemaining: Math.max(0, Math.ceil((player.activeTask.endsAt - Date.now()) / 1000))
+      };
+    }
     if (playerState?.canKill !== undefined) {
       statusData.canKill = playerState.canKill;
     }
@@ -497,13 +711,25 @@ export function extractSkillId(message: Message): string | null {
   if (text.includes('join') || text.includes('register')) return 'join-game';
   if (text.includes('leave') || text.includes('quit') || text.includes('exit')) return 'leave-game';
   if (text.includes('move') || text.includes('go to') || text.includes('walk')) return 'move-to-room';
+  if (
+    /\b(?:sabotage|reactor|oxygen|o2|lights|comms|communications)\b/.test(text) &&
+    /\b(?:fix|repair|restore)\b/.test(text)
+  ) {
+    return 'fix-sabotage';
+  }
   if (text.includes('task') || text.includes('fix') || text.includes('repair')) return 'complete-task';
   if (text.includes('kill') || text.includes('eliminate')) return 'kill-player';
   if (text.includes('vent')) return 'use-vent';
   if (text.includes('sabotage')) return 'sabotage';
   if (text.includes('meeting') && text.includes('call')) return 'call-meeting';
   if (text.includes('report') && text.includes('body')) return 'report-body';
+  if (text.includes('chat log') || text.includes('transcript')) return 'get-chat';
+  if (/\block\b/.test(text) && text.includes('vote')) return 'lock-vote';
+  if (/\bready\b/.test(text)) return 'ready-to-vote';
   if (text.includes('vote')) return 'vote';
+  if (text.includes('camera')) return 'view-cameras';
+  if (text.includes('admin')) return 'admin-map';
+  if (text.includes('vitals')) return 'check-vitals';
   if (text.includes('status') || text.includes('where am i') || text.includes('what can i')) {
     return 'get-status';
   }
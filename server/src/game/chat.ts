@@ -0,0 +1,112 @@
+/**
+ * Chat Sanitization and Claims
+ * Cleans player chat so it cannot spoof the game or other players,
+ * and validates the structured claims bots attach to messages
+ */
+
+import type { ChatClaim, ClaimType, ShipLayout, ValidationResult } from '@elizagames/shared';
+
+export const CLAIM_TYPES: ClaimType[] = ['accuse', 'vouch', 'alibi', 'saw'];
+
+// Which fields each claim type must name
+const CLAIM_FIELDS: Record<ClaimType, { subject: boolean; room: boolean }> = {
+  accuse: { subject: true, room: false },
+  vouch: { subject: true, room: false },
+  alibi: { subject: false, room: true },
+  saw: { subject: true, room: true }
+};
+
+// Control characters, plus zero-width and bidi characters that can disguise text
+const HIDDEN_CHARS = /[\u0000-\u001F\u007F-\u009F\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+// "[SYSTEM] ...", "(Game Master) ...", "Server: ..." and similar
+const SYSTEM_LABEL = /^(?:[[(<]\s*(?:system|game master|game|gm|server|admin|moderator)\s*[\])>]\s*:?|(?:system|game master|game|gm|server|admin|moderator)\s*:)\s*/i;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "Player2: ...", "[Player2] ..." and similar
+function speakerLabel(name: string): RegExp {
+  const escaped = escapeRegExp(name);
+  return new RegExp(`^(?:[[(<]\\s*${escaped}\\s*[\\])>]\\s*:?|${escaped}\\s*:)\\s*`, 'i');
+}
+
+/**
+ * Strip hidden characters, collapse whitespace (so a message cannot fake new lines),
+ * and remove leading system tags or other players' speaker labels.
+ */
+export function sanitizeChatMessage(text: string, otherPlayerNames: string[] = []): string {
+  const labels = [SYSTEM_LABEL, ...otherPlayerNames.filter((name) => name.trim()).map(speakerLabel)];
+  let result = text.replace(HIDDEN_CHARS, ' ').replace(/\s+/g, ' ').trim();
+
+  // Labels can be stacked ("[SYSTEM] Player2: ..."), so strip until none remain
+  let label = labels.find((pattern) => pattern.test(result));
+  while (label) {
+    result = result.replace(label, '').trim();
+    label = labels.find((pattern) => pattern.test(result));
+  }
+
+  return result;
+}
+
+export function isClaimType(value: unknown): value is ClaimType {
+  return typeof value === 'string' && (CLAIM_TYPES as string[]).includes(value);
+}
+
+/**
+ * Check a claim from an untrusted client against the ship layout and the players in the game.
+ */
+export function validateClaim(claim: unknown, ship: ShipLayout, playerIds: string[]): ValidationResult {
+  if (typeof claim !== 'object' || claim === null) {
+    return { valid: false, error: 'Claim must be an object' };
+  }
+
+  const { type, subject, room, time } = claim as Record<string, unknown>;
+  if (!isClaimType(type)) {
+    return { valid: false, error: `Claim type must be one of: ${CLAIM_TYPES.join(', ')}` };
+  }
+
+  const required = CLAIM_FIELDS[type];
+  if (subject === undefined) {
+    if (required.subject) return { valid: false, error: `A ${type} claim needs a subject` };
+  } else if (typeof subject !== 'string' || !playerIds.includes(subject)) {
+    return { valid: false, error: 'Unknown claim subject' };
+  }
+
+  if (room === undefined) {
+    if (required.room) return { valid: false, error: `A ${type} claim needs a room` };
+  } else if (typeof room !== 'string' || !ship.rooms.has(room)) {
+    return { valid: false, error: `Unknown room: ${String(room)}` };
+  }
+
+  if (time !== undefined && (typeof time !== 'number' || !Number.isFinite(time) || time < 0)) {
+    return { valid: false, error: 'Claim time must be a non-negative number of seconds' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Plain-text rendering of a claim, used when a bot sends a claim without a message.
+ */
+export function describeClaim(claim: ChatClaim, playerName: (id: string) => string, roomName: (id: string) => string): string {
+  const subject = claim.subject ? playerName(claim.subject) : '';
+  const room = claim.room ? roomName(claim.room) : '';
+  const when = claim.time !== undefined ? ` ${Math.round(claim.time)}s ago` : '';
+
+  switch (claim.type) {
+    case 'accuse':
+      return `I accuse ${subject}${room ? ` (${room})` : ''}${when}`;
+    case 'vouch':
+      return `I vouch for ${subject}${room ? ` (${room})` : ''}${when}`;
+    case 'alibi':
+      return `I was in ${room}${when}`;
+    case 'saw':
+      return `I saw ${subject} in ${room}${when}`;
+  }
+}
@@ -11,11 +11,44 @@ import type {
   GameConfig,
   GameEvent,
   WinnerType,
-  PlayerRole
+  WinReason,
+  PlayerRole,
+  SabotageSystem,
+  DeadBody,
+  GameTask,
+  TaskCategory,
+  ActiveTaskStep,
+  SecurityDevice,
+  CameraFeed,
+  AdminMapEntry,
+  VitalsEntry,
+  ChatMessage,
+  ChatErrorCode,
+  ChatClaim
 } from '@elizagames/shared';
 import { DEFAULT_GAME_CONFIG } from '@elizagames/shared';
 import { createShipLayout, areRoomsAdjacent } from './ship.js';
-import { createAllTasks, assignTasksToPlayer, getAllTaskProgress, validateTaskCompletion, canCompleteTask } from './tasks.js';
+import {
+  createAllTasks,
+  assignTasksToPlayer,
+  getCrewTaskProgress,
+  getTasksByCategory,
+  selectCommonTasks,
+  validateTaskCompletion,
+  canCompleteTask
+} from './tasks.js';
+import { createSabotage, getRemainingFixRooms, isCriticalSabotage, isSabotageExpired } from './sabotage.js';
+import { describeClaim, sanitizeChatMessage, validateClaim } from './chat.js';
+
+const EMERGENCY_BUTTON_ROOM = 'cafeteria';
+const SECURITY_ROOM = 'security';
+const VITALS_ROOM = 'medbay';
+
+const DEVICE_NAMES: Record<SecurityDevice, string> = {
+  cameras: 'the cameras',
+  'admin-map': 'the admin map',
+  vitals: 'the vitals panel'
+};
 
 export class GameEngine {
   private state: GameState;
@@ -37,14 +70,32 @@ export class GameEngine {
   constructor(config: Partial<GameConfig> = {}) {
     this.config = { ...DEFAULT_GAME_CONFIG, ...config };
     
-    // Validate task count
-    const totalTasks = createAllTasks().size;
-    if (this.config.taskCount > totalTasks) {
-      throw new Error(`Task count (${this.config.taskCount}) cannot exceed total tasks (${totalTasks})`);
+    // Validate task mix against the available tasks of each category
+    const allTasks = createAllTasks();
+    const taskMix: Array<[TaskCategory, number]> = [
+      ['common', this.config.commonTasks],
+      ['short', this.config.shortTasks],
+      ['long', this.config.longTasks]
+    ];
+    for (const [category, count] of taskMix) {
+      const available = getTasksByCategory(allTasks, category).length;
+      if (count > available) {
+        throw new Error(`Too many ${category} tasks (${count}); only ${available} available`);
+      }
+      if (count < 0) {
+        throw new Error(`Number of ${category} tasks cannot be negative`);
+      }
     }
-    if (this.config.taskCount < 1) {
+    if (this.config.commonTasks + this.config.shortTasks + this.config.longTasks < 1) {
       throw new Error('Task count must be at least 1');
     }
+
+    const ship = createShipLayout();
+    for (const roomId of [...this.config.cameraRooms, this.config.adminMapRoom]) {
+      if (!ship.rooms.has(roomId)) {
+        throw new Error(`Unknown room: ${roomId}`);
+      }
+    }
     
     this.state = this.createInitialState();
   }
@@ -63,7 +114,13 @@ export class GameEngine {
       imposterIds: new Set(),
       tasks: createAllTasks(),
       deadPlayers: new Set(),
+      bodies: new Map(),
       votes: new Map(),
+      lockedVotes: new Set(),
+      readyToVote: new Set(),
+      chatLog: [],
+      sabotages: new Map(),
+      lockedDoors: new Map(),
       createdAt: Date.now()
     };
   }
@@ -110,6 +167,7 @@ export class GameEngine {
       isAlive: true,
       taskIds: [],
       completedTaskIds: [],
+      tasks: new Map(),
       taskSteps: new Map(),
       emergencyMeetingsUsed: 0,
       contextId: uuidv4(),
@@ -142,6 +200,7 @@ export class GameEngine {
     this.state.players.delete(agentId);
     this.state.imposterIds.delete(agentId);
     this.state.deadPlayers.delete(agentId);
+    this.state.bodies.delete(agentId);
 
     this.emitEvent({
       type: 'player-left',
@@ -193,6 +252,8 @@ export class GameEngine {
 
     this.state.phase = 'playing';
     this.state.round++;
+    this.state.startedAt = Date.now();
+    this.state.meetingButtonReadyAt = this.state.startedAt + this.config.emergencyCooldown;
 
     // Assign roles
     this.assignRoles();
@@ -216,6 +277,16 @@ export class GameEngine {
       },
       visibility: 'all'
     });
+
+    // Decide the game when the time limit expires
+    if (this.config.timeLimit > 0) {
+      const timer = setTimeout(() => {
+        if (this.state.phase !== 'ended') {
+          this.checkWinConditions();
+        }
+      }, this.config.timeLimit);
+      this.timers.push(timer);
+    }
   }
 
   private assignRoles(): void {
@@ -252,10 +323,18 @@ export class GameEngine {
 
   private assignTasks(): void {
     const allTasks = this.state.tasks;
+    // Every crewmate shares the same common tasks
+    const commonTaskIds = selectCommonTasks(allTasks, this.config.commonTasks);
 
     for (const player of this.state.players.values()) {
       if (player.role === 'crewmate') {
-        player.taskIds = assignTasksToPlayer(allTasks, this.config.taskCount);
+        const instances = assignTasksToPlayer(allTasks, {
+          commonTaskIds,
+          shortTasks: this.config.shortTasks,
+          longTasks: this.config.longTasks
+        });
+        player.tasks = new Map(instances.map((task) => [task.id, task]));
+        player.taskIds = instances.map((task) => task.id);
         player.completedTaskIds = [];
       }
     }
@@ -271,10 +350,6 @@ export class GameEngine {
       return { success: false, message: 'Player not found' };
     }
 
-    if (!player.isAlive) {
-      return { success: false, message: 'Dead players cannot move' };
-    }
-
     if (this.state.phase !== 'playing') {
       return { success: false, message: 'Can only move during playing phase' };
     }
@@ -284,8 +359,27 @@ export class GameEngine {
       return { success: false, message: 'Invalid room' };
     }
 
+    if (player.activeTask) {
+      return { success: false, message: 'Cannot move while doing a task' };
+    }
+
+    if (this.isInVent(player)) {
+      return { success: false, message: 'Exit the vent first' };
+    }
+
+    // Ghosts drift through walls and locked doors
+    if (!player.isAlive) {
+      player.location = targetRoom;
+      player.lastActionTime = Date.now();
+      return { success: true, message: `Drifted to ${targetRoomObj.name}` };
+    }
+
+    if (this.state.lockedDoors.has(player.location) || this.state.lockedDoors.has(targetRoom)) {
+      return { success: false, message: 'Doors are locked' };
+    }
+
     // Check adjacency
-    if (!areRoomsAdjacent(this.state.ship, player.location, targetRoom)) {
+    if (!areRoomsAdjacent(this.state.ship, player.location, targetRoom, this.getLockedRooms())) {
       return { success: false, message: 'Room is not adjacent' };
     }
 
@@ -306,6 +400,31 @@ export class GameEngine {
       specificPlayers: [agentId]
     });
 
+    // Players in either room see the mover leave or arrive
+    const leftBehind = this.getObservers(previousLocation, agentId);
+    if (leftBehind.length > 0) {
+      this.emitEvent({
+        type: 'player-exited-room',
+        gameId: this.state.id,
+        timestamp: Date.now(),
+        data: { playerId: agentId, playerName: player.name, from: previousLocation, to: targetRoom },
+        visibility: 'specific',
+        specificPlayers: leftBehind
+      });
+    }
+
+    const arrivedAmong = this.getObservers(targetRoom, agentId);
+    if (arrivedAmong.length > 0) {
+      this.emitEvent({
+        type: 'player-entered-room',
+        gameId: this.state.id,
+        timestamp: Date.now(),
+        data: { playerId: agentId, playerName: player.name, from: previousLocation, to: targetRoom },
+        visibility: 'specific',
+        specificPlayers: arrivedAmong
+      });
+    }
+
     return { success: true, message: `Moved to ${targetRoomObj.name}` };
   }
 
@@ -313,16 +432,22 @@ export class GameEngine {
   // Actions - Crewmate
   // ============================================================================
 
-  completeTaskStep(agentId: string, taskId: string, input: string): { success: boolean; message: string; completed?: boolean } {
+  completeTaskStep(
+    agentId: string,
+    taskId: string,
+    input: string
+  ): { success: boolean; message: string; completed?: boolean; inProgress?: boolean } {
     const player = this.state.players.get(agentId);
     if (!player) {
       return { success: false, message: 'Player not found' };
     }
 
-    if (!player.isAlive) {
-      return { success: false, message: 'Dead players cannot complete tasks' };
+    // Meetings abort timed steps, so none may start while one is running
+    if (this.state.phase !== 'playing') {
+      return { success: false, message: 'Can only do tasks during playing phase' };
     }
 
+    // Dead crewmates keep working on tasks as ghosts
     if (player.role !== 'crewmate') {
       return { success: false, message: 'Only crewmates can complete tasks' };
     }
@@ -335,7 +460,11 @@ export class GameEngine {
       return { success: false, message: 'Task already completed' };
     }
 
-    const task = this.state.tasks.get(taskId);
+    if (player.activeTask) {
+      return { success: false, message: 'Already doing a task' };
+    }
+
+    const task = this.getPlayerTask(player, taskId);
     if (!task) {
       return { success: false, message: 'Task not found' };
     }
@@ -355,22 +484,65 @@ export class GameEngine {
       return { success: false, message: validation.message };
     }
 
+    // Timed steps lock the player in place until they finish
+    const duration = (task.steps[currentStep].duration ?? 0) * this.config.taskDurationMultiplier;
+    if (duration > 0) {
+      this.startTaskStep(player, task, currentStep, duration);
+      return {
+        success: true,
+        completed: false,
+        inProgress: true,
+        message: `⏳ ${task.steps[currentStep].description} (${Math.ceil(duration / 1000)}s)`
+      };
+    }
+
+    return this.advanceTaskStep(player, task, validation.nextStep);
+  }
+
+  private startTaskStep(player: Player, task: GameTask, step: number, duration: number): void {
+    const now = Date.now();
+    const activeTask: ActiveTaskStep = { taskId: task.id, step, startedAt: now, endsAt: now + duration };
+    player.activeTask = activeTask;
+    player.lastActionTime = now;
+
+    const timer = setTimeout(() => {
+      // Aborted by a kill, a meeting or the player leaving
+      if (player.activeTask !== activeTask || this.state.players.get(player.agentId) !== player) return;
+      player.activeTask = undefined;
+      if (this.state.phase === 'playing') {
+        this.advanceTaskStep(player, task, step + 1);
+      }
+    }, duration);
+    this.timers.push(timer);
+  }
+
+  private advanceTaskStep(
+    player: Player,
+    task: GameTask,
+    nextStep: number
+  ): { success: boolean; message: string; completed?: boolean } {
+    const agentId = player.agentId;
+    const taskId = task.id;
+
     // Update step progress
-    if (validation.completed) {
+    if (nextStep >= task.steps.length) {
       // Task fully completed
       player.completedTaskIds.push(taskId);
       task.completedBy.add(agentId);
+      this.state.tasks.get(taskId)?.completedBy.add(agentId);
       player.taskSteps.delete(taskId);
       player.lastActionTime = Date.now();
 
-      // Public, no-details event to avoid leaking task/location info
-      this.emitEvent({
-        type: 'task-completed',
-        gameId: this.state.id,
-        timestamp: Date.now(),
-        data: {},
-        visibility: 'all'
-      });
+      // Public, no-details event to avoid leaking task/location info (silenced while comms are down)
+      if (!this.state.sabotages.has('comms')) {
+        this.emitEvent({
+          type: 'task-completed',
+          gameId: this.state.id,
+          timestamp: Date.now(),
+          data: {},
+          visibility: 'all'
+        });
+      }
 
       // Private detailed event for the player
       this.emitEvent({
@@ -386,6 +558,26 @@ export class GameEngine {
         specificPlayers: [agentId]
       });
 
+      // Visual tasks prove innocence to anyone who can see the player do them
+      if (task.visual && player.isAlive) {
+        const observers = this.getObservers(player.location, agentId);
+        if (observers.length > 0) {
+          this.emitEvent({
+            type: 'visual-task-observed',
+            gameId: this.state.id,
+            timestamp: Date.now(),
+            data: {
+              playerId: agentId,
+              playerName: player.name,
+              taskDescription: task.description,
+              location: player.location
+            },
+            visibility: 'specific',
+            specificPlayers: observers
+          });
+        }
+      }
+
       // Check if all tasks are done
       this.checkWinConditions();
 
@@ -396,13 +588,13 @@ export class GameEngine {
       };
     } else {
       // Multi-step task - save progress
-      player.taskSteps.set(taskId, validation.nextStep);
+      player.taskSteps.set(taskId, nextStep);
       player.lastActionTime = Date.now();
 
       return {
         success: true,
         completed: false,
-        message: validation.message
+        message: `Step ${nextStep}/${task.steps.length}: ${task.steps[nextStep].description}`
       };
     }
   }
@@ -411,7 +603,11 @@ export class GameEngine {
   // Actions - Imposter
   // ============================================================================
 
-  useVent(agentId: string, action: 'enter' | 'exit', targetRoom?: string): { success: boolean; message: string } {
+  useVent(
+    agentId: string,
+    action: 'enter' | 'move' | 'exit',
+    targetRoom?: string
+  ): { success: boolean; message: string } {
     const player = this.state.players.get(agentId);
     if (!player) {
       return { success: false, message: 'Player not found' };
@@ -434,8 +630,36 @@ export class GameEngine {
       return { success: false, message: 'No vent in current room' };
     }
 
+    if (action === 'enter') {
+      if (this.isInVent(player)) {
+        return { success: false, message: 'Already in a vent' };
+      }
+
+      const enteredAt = Date.now();
+      player.ventEnteredAt = enteredAt;
+      player.lastActionTime = enteredAt;
+      this.emitVentWitnessed(player, 'enter', currentRoom.id);
+
+      // Stay inside too long and the vent pushes you out
+      if (this.config.maxVentTime > 0) {
+        const timer = setTimeout(() => {
+          if (player.ventEnteredAt === enteredAt && this.state.phase === 'playing') {
+            this.leaveVent(player);
+          }
+        }, this.config.maxVentTime);
+        this.timers.push(timer);
+      }
+
+      return { success: true, message: `Entered vent in ${currentRoom.name}` };
+    }
+
+    if (!this.isInVent(player)) {
+      return { success: false, message: 'Not in a vent' };
+    }
+
     if (action === 'exit') {
-      return { success: true, message: 'Exited vent' };
+      this.leaveVent(player);
+      return { success: true, message: `Exited vent in ${currentRoom.name}` };
     }
 
     if (!targetRoom) {
@@ -458,10 +682,35 @@ export class GameEngine {
       visibility: 'imposters'
     });
 
-    return { success: true, message: `Vented to ${targetRoom}` };
+    const targetRoomName = this.state.ship.rooms.get(targetRoom)?.name || targetRoom;
+    return { success: true, message: `Crawled through the vent to ${targetRoomName}` };
+  }
+
+  isInVent(player: Player): boolean {
+    return player.ventEnteredAt !== undefined;
   }
 
-  sabotageSystem(agentId: string, system: 'oxygen' | 'reactor' | 'lights' | 'comms'): { success: boolean; message: string } {
+  private leaveVent(player: Player): void {
+    player.ventEnteredAt = undefined;
+    player.lastActionTime = Date.now();
+    this.emitVentWitnessed(player, 'exit', player.location);
+  }
+
+  private emitVentWitnessed(player: Player, action: 'enter' | 'exit', roomId: string): void {
+    const observers = this.getObservers(roomId, player.agentId);
+    if (observers.length === 0) return;
+
+    this.emitEvent({
+      type: 'vent-witnessed',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: { playerId: player.agentId, playerName: player.name, action, room: roomId },
+      visibility: 'specific',
+      specificPlayers: observers
+    });
+  }
+
+  sabotageSystem(agentId: string, system: SabotageSystem): { success: boolean; message: string } {
     const player = this.state.players.get(agentId);
     if (!player) {
       return { success: false, message: 'Player not found' };
@@ -479,7 +728,23 @@ export class GameEngine {
       return { success: false, message: 'Can only sabotage during playing phase' };
     }
 
-    player.lastActionTime = Date.now();
+    const cooldownRemaining = this.getSabotageCooldownRemaining();
+    if (cooldownRemaining > 0) {
+      return { success: false, message: `Sabotage on cooldown (${Math.ceil(cooldownRemaining / 1000)}s remaining)` };
+    }
+
+    if (this.state.sabotages.has(system)) {
+      return { success: false, message: `${system} is already sabotaged` };
+    }
+
+    if (isCriticalSabotage(system) && this.hasCriticalSabotage()) {
+      return { success: false, message: 'Another critical sabotage is already active' };
+    }
+
+    const sabotage = createSabotage(system, agentId, this.config.criticalSabotageTime);
+    this.state.sabotages.set(system, sabotage);
+    this.state.lastSabotageTime = sabotage.startedAt;
+    player.lastActionTime = sabotage.startedAt;
 
     this.emitEvent({
       type: 'sabotage-triggered',
@@ -488,14 +753,163 @@ export class GameEngine {
       data: {
         playerId: agentId,
         system,
-        urgent: system === 'oxygen' || system === 'reactor'
+        urgent: isCriticalSabotage(system),
+        fixRooms: sabotage.fixRooms,
+        ...(sabotage.deadline !== undefined && { deadline: sabotage.deadline })
       },
       visibility: 'all'
     });
 
+    // Critical sabotages end the game if still active when the countdown runs out
+    if (sabotage.deadline !== undefined) {
+      const timer = setTimeout(() => {
+        if (this.state.sabotages.get(system) === sabotage && this.state.phase === 'playing') {
+          this.checkWinConditions();
+        }
+      }, sabotage.deadline - sabotage.startedAt);
+      this.timers.push(timer);
+    }
+
     return { success: true, message: `🚨 Sabotaged ${system}!` };
   }
 
+  sabotageDoors(agentId: string, roomId: string): { success: boolean; message: string } {
+    const player = this.state.players.get(agentId);
+    if (!player) {
+      return { success: false, message: 'Player not found' };
+    }
+
+    if (player.role !== 'imposter') {
+      return { success: false, message: 'Only imposters can sabotage' };
+    }
+
+    if (!player.isAlive) {
+      return { success: false, message: 'Dead players cannot sabotage' };
+    }
+
+    if (this.state.phase !== 'playing') {
+      return { success: false, message: 'Can only sabotage during playing phase' };
+    }
+
+    const room = this.state.ship.rooms.get(roomId);
+    if (!room) {
+      return { success: false, message: 'Invalid room' };
+    }
+
+    const cooldownRemaining = this.getSabotageCooldownRemaining();
+    if (cooldownRemaining > 0) {
+      return { success: false, message: `Sabotage on cooldown (${Math.ceil(cooldownRemaining / 1000)}s remaining)` };
+    }
+
+    if (this.state.lockedDoors.has(roomId)) {
+      return { success: false, message: `${room.name} doors are already locked` };
+    }
+
+    const now = Date.now();
+    const unlocksAt = now + this.config.doorLockTime;
+    this.state.lockedDoors.set(roomId, unlocksAt);
+    this.state.lastSabotageTime = now;
+    player.lastActionTime = now;
+
+    this.emitEvent({
+      type: 'doors-locked',
+      gameId: this.state.id,
+      timestamp: now,
+      data: {
+        room: roomId,
+        duration: this.config.doorLockTime
+      },
+      visibility: 'all'
+    });
+
+    const timer = setTimeout(() => {
+      if (this.state.lockedDoors.get(roomId) === unlocksAt) {
+        this.openDoors(roomId);
+      }
+    }, this.config.doorLockTime);
+    this.timers.push(timer);
+
+    return { success: true, message: `🚪 Locked ${room.name} doors!` };
+  }
+
+  private openDoors(roomId: string): void {
+    this.state.lockedDoors.delete(roomId);
+
+    this.emitEvent({
+      type: 'doors-opened',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        room: roomId
+      },
+      visibility: 'all'
+    });
+  }
+
+  fixSabotage(agentId: string, system?: SabotageSystem): { success: boolean; message: string; fixed?: boolean } {
+    const player = this.state.players.get(agentId);
+    if (!player) {
+      return { success: false, message: 'Player not found' };
+    }
+
+    if (!player.isAlive) {
+      return { success: false, message: 'Dead players cannot fix sabotages' };
+    }
+
+    if (this.state.phase !== 'playing') {
+      return { success: false, message: 'Can only fix sabotages during playing phase' };
+    }
+
+    if (this.isInVent(player)) {
+      return { success: false, message: 'Cannot fix sabotages from inside a vent' };
+    }
+
+    // Default to whichever active sabotage can be fixed from the current room
+    const sabotage = system
+      ? this.state.sabotages.get(system)
+      : Array.from(this.state.sabotages.values()).find((s) =>
+          getRemainingFixRooms(s).includes(player.location)
+        );
+
+    if (!sabotage) {
+      return {
+        success: false,
+        message: system ? `${system} is not sabotaged` : 'No sabotage to fix in this room'
+      };
+    }
+
+    const remainingRooms = getRemainingFixRooms(sabotage);
+    if (!remainingRooms.includes(player.location)) {
+      const rooms = remainingRooms.map((id) => this.state.ship.rooms.get(id)?.name || id).join(' and ');
+      return { success: false, message: `You must be in ${rooms} to fix ${sabotage.system}` };
+    }
+
+    sabotage.fixedRooms.push(player.location);
+    player.lastActionTime = Date.now();
+
+    if (getRemainingFixRooms(sabotage).length > 0) {
+      return {
+        success: true,
+        fixed: false,
+        message: `Fixed ${sabotage.system} panel (${sabotage.fixedRooms.length}/${sabotage.fixRooms.length})`
+      };
+    }
+
+    this.state.sabotages.delete(sabotage.system);
+
+    this.emitEvent({
+      type: 'sabotage-fixed',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        system: sabotage.system
+      },
+      visibility: 'all'
+    });
+
+    return { success: true, fixed: true, message: `🔧 Fixed ${sabotage.system}!` };
+  }
+
   killPlayer(killerId: string, targetId: string): { success: boolean; message: string} {
     const killer = this.state.players.get(killerId);
     const target = this.state.players.get(targetId);
@@ -520,6 +934,10 @@ export class GameEngine {
       return { success: false, message: 'Cannot kill fellow imposter' };
     }
 
+    if (this.isInVent(killer)) {
+      return { success: false, message: 'Cannot kill from inside a vent' };
+    }
+
     if (killer.location !== target.location) {
       return { success: false, message: 'Target is not in the same room' };
     }
@@ -531,11 +949,21 @@ export class GameEngine {
       return { success: false, message: `Kill on cooldown (${remaining}s remaining)` };
     }
 
-    // Execute kill
+    // Bystanders who can see the kill happen
+    const witnesses = this.getKillWitnesses(killer, targetId);
+
+    // Execute kill (aborting any task step in progress)
     target.isAlive = false;
+    target.diedAt = now;
+    target.activeTask = undefined;
     killer.lastKillTime = now;
     killer.lastActionTime = now;
     this.state.deadPlayers.add(targetId);
+    this.state.bodies.set(targetId, {
+      victimId: targetId,
+      room: killer.location,
+      timeOfDeath: now
+    });
 
     // Private detail for killer
     this.emitEvent({
@@ -565,12 +993,183 @@ export class GameEngine {
       });
     }
 
+    // Everyone else in the room who can see the kill
+    if (witnesses.length > 0) {
+      this.emitEvent({
+        type: 'kill-witnessed',
+        gameId: this.state.id,
+        timestamp: Date.now(),
+        data: {
+          killerId,
+          killerName: killer.name,
+          victimId: targetId,
+          victimName: target.name,
+          location: killer.location
+        },
+        visibility: 'specific',
+        specificPlayers: witnesses.map((p) => p.agentId)
+      });
+    }
+
     // Check win conditions
     this.checkWinConditions();
 
     return { success: true, message: `Killed ${target.name}` };
   }
 
+  // ============================================================================
+  // Security Devices
+  // ============================================================================
+
+  viewCameras(agentId: string): { success: boolean; message: string; feeds?: CameraFeed[] } {
+    const player = this.state.players.get(agentId);
+    const error = this.checkDeviceUse(player, 'cameras', SECURITY_ROOM);
+    if (error || !player) {
+      return { success: false, message: error || 'Player not found' };
+    }
+
+    const feeds = this.config.cameraRooms.map((roomId) => ({
+      roomId,
+      roomName: this.state.ship.rooms.get(roomId)?.name || roomId,
+      players: this.getPlayersInRoom(roomId)
+        .filter((p) => p.agentId !== agentId)
+        .map((p) => p.name)
+    }));
+
+    this.emitDeviceUsed(player, 'cameras');
+
+    const summary = feeds.map((f) => `${f.roomName}: ${f.players.join(', ') || 'empty'}`).join('; ');
+    return { success: true, message: `Cameras - ${summary}`, feeds };
+  }
+
+  viewAdminMap(agentId: string): { success: boolean; message: string; rooms?: AdminMapEntry[] } {
+    const player = this.state.players.get(agentId);
+    const error = this.checkDeviceUse(player, 'admin-map', this.config.adminMapRoom);
+    if (error || !player) {
+      return { success: false, message: error || 'Player not found' };
+    }
+
+    // Counts only: the map shows blips, not names
+    const rooms = Array.from(this.state.ship.rooms.values()).map((room) => ({
+      roomId: room.id,
+      roomName: room.name,
+      playerCount: this.getPlayersInRoom(room.id).length
+    }));
+
+    this.emitDeviceUsed(player, 'admin-map');
+
+    const summary = rooms
+      .filter((r) => r.playerCount > 0)
+      .map((r) => `${r.roomName}: ${r.playerCount}`)
+      .join(', ');
+    return { success: true, message: `Admin map - ${summary || 'no one on the map'}`, rooms };
+  }
+
+  viewVitals(agentId: string): { success: boolean; message: string; vitals?: VitalsEntry[] } {
+    const player = this.state.players.get(agentId);
+    const error = this.checkDeviceUse(player, 'vitals', VITALS_ROOM);
+    if (error || !player) {
+      return { success: false, message: error || 'Player not found' };
+    }
+
+    // Status and time since death only; never where it happened
+    const now = Date.now();
+    const vitals = Array.from(this.state.players.values()).map((p) => ({
+      playerId: p.agentId,
+      playerName: p.name,
+      isAlive: p.isAlive,
+      ...(!p.isAlive && p.diedAt !== undefined && {
+        secondsSinceDeath: Math.floor((now - p.diedAt) / 1000)
+      })
+    }));
+
+    this.emitDeviceUsed(player, 'vitals');
+
+    const dead = vitals
+      .filter((v) => !v.isAlive)
+      .map((v) => (v.secondsSinceDeath !== undefined ? `${v.playerName} (${v.secondsSinceDeath}s ago)` : v.playerName));
+    return { success: true, message: `Vitals - dead: ${dead.join(', ') || 'none'}`, vitals };
+  }
+
+  /**
+   * Why the player cannot use a device right now, or null if they can.
+   * Comms sabotage takes all devices offline; crewmates in the dark cannot read them.
+   */
+  private checkDeviceUse(player: Player | undefined, device: SecurityDevice, roomId: string): string | null {
+    const deviceName = DEVICE_NAMES[device];
+    const roomName = this.state.ship.rooms.get(roomId)?.name || roomId;
+
+    if (!player) return 'Player not found';
+    if (!player.isAlive) return `Dead players cannot use ${deviceName}`;
+    if (this.state.phase !== 'playing') return `Can only use ${deviceName} during playing phase`;
+    if (this.isInVent(player)) return `Cannot use ${deviceName} from inside a vent`;
+    if (player.location !== roomId) return `You must be in ${roomName} to use ${deviceName}`;
+    if (this.state.sabotages.has('comms')) return `Comms are down - cannot use ${deviceName}`;
+    if (this.hasReducedVision(player)) return `Too dark to use ${deviceName}`;
+    return null;
+  }
+
+  private emitDeviceUsed(player: Player, device: SecurityDevice): void {
+    player.lastActionTime = Date.now();
+
+    const observers = this.getObservers(player.location, player.agentId);
+    if (observers.length === 0) return;
+
+    this.emitEvent({
+      type: 'device-used',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: { playerId: player.agentId, playerName: player.name, device, room: player.location },
+      visibility: 'specific',
+      specificPlayers: observers
+    });
+  }
+
+  // ============================================================================
+  // Ghosts
+  // ============================================================================
+
+  postGhostMessage(
+    agentId: string,
+    text: string
+  ): { success: boolean; message: string; text?: string; error?: ChatErrorCode } {
+    const player = this.state.players.get(agentId);
+    if (!player) {
+      return { success: false, message: 'Player not found' };
+    }
+
+    if (player.isAlive) {
+      return { success: false, message: 'Only ghosts can use the ghost channel' };
+    }
+
+    if (this.state.phase === 'lobby' || this.state.phase === 'ended') {
+      return { success: false, message: 'Game is not in progress' };
+    }
+
+    const checked = this.checkChatMessage(player, text);
+    if ('error' in checked) {
+      return { success: false, ...checked };
+    }
+
+    player.lastActionTime = Date.now();
+    player.lastChatTime = player.lastActionTime;
+
+    this.emitEvent({
+      type: 'chat-message',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        senderId: agentId,
+        senderName: player.name,
+        message: checked.text,
+        channel: 'ghosts'
+      },
+      visibility: 'ghosts'
+    });
+
+    return { success: true, message: 'Message sent to ghosts', text: checked.text };
+  }
+
   // ============================================================================
   // Meeting & Voting
   // ============================================================================
@@ -589,23 +1188,34 @@ export class GameEngine {
       return { success: false, message: 'Can only call meetings during playing phase' };
     }
 
-    // Check emergency meeting limit (only for emergency meetings, not body reports)
+    if (this.isInVent(caller)) {
+      return { success: false, message: 'Cannot report or call meetings from inside a vent' };
+    }
+
+    // Emergency button rules (body reports are exempt)
     if (!bodyId) {
       if (caller.emergencyMeetingsUsed >= this.config.emergencyMeetings) {
         return { success: false, message: 'No emergency meetings remaining' };
       }
+      if (this.hasCriticalSabotage()) {
+        return { success: false, message: 'Cannot call emergency meeting during a critical sabotage' };
+      }
+      if (caller.location !== EMERGENCY_BUTTON_ROOM) {
+        return { success: false, message: 'The emergency button is in Cafeteria' };
+      }
+      const cooldownRemaining = this.getMeetingCooldownRemaining();
+      if (cooldownRemaining > 0) {
+        return { success: false, message: `Emergency button on cooldown (${Math.ceil(cooldownRemaining / 1000)}s remaining)` };
+      }
     }
 
     // Validate body report
     if (bodyId) {
-      const body = this.state.players.get(bodyId);
+      const body = this.state.bodies.get(bodyId);
       if (!body) {
         return { success: false, message: 'Body not found' };
       }
-      if (body.isAlive) {
-        return { success: false, message: 'Player is still alive' };
-      }
-      if (body.location !== caller.location) {
+      if (body.room !== caller.location) {
         return { success: false, message: 'Body not in this room' };
       }
     }
@@ -613,6 +1223,27 @@ export class GameEngine {
     this.state.phase = 'discussion';
     this.state.discussionStartTime = Date.now();
     this.state.meetingCaller = callerId;
+
+    // Meetings resolve critical sabotages and open all doors; lights and comms stay broken
+    for (const system of this.state.sabotages.keys()) {
+      if (isCriticalSabotage(system)) {
+        this.state.sabotages.delete(system);
+      }
+    }
+    for (const roomId of Array.from(this.state.lockedDoors.keys())) {
+      this.openDoors(roomId);
+    }
+
+    // Task steps in progress are abandoned and vents emptied when everyone is called away
+    for (const player of this.state.players.values()) {
+      player.activeTask = undefined;
+      player.ventEnteredAt = undefined;
+    }
+
+    // Bodies are cleaned up and a fresh chat log started once a meeting starts
+    this.state.bodies.clear();
+    this.state.chatLog = [];
+    this.state.readyToVote.clear();
     
     // Increment emergency meetings counter (not for body reports)
     if (!bodyId) {
@@ -637,9 +1268,10 @@ export class GameEngine {
       visibility: 'all'
     });
 
-    // Auto-transition to voting after discussion time
+    // Auto-transition to voting after discussion time, unless this discussion already ended early
+    const discussionStartTime = this.state.discussionStartTime;
     const timer = setTimeout(() => {
-      if (this.state.phase === 'discussion') {
+      if (this.state.phase === 'discussion' && this.state.discussionStartTime === discussionStartTime) {
         this.startVoting();
       }
     }, this.config.discussionTime);
@@ -648,10 +1280,234 @@ export class GameEngine {
     return { success: true, message: bodyId ? 'Body reported!' : 'Emergency meeting called!' };
   }
 
+  postChatMessage(
+    agentId: string,
+    text: string,
+    claim?: ChatClaim
+  ): { success: boolean; message: string; chatMessage?: ChatMessage; error?: ChatErrorCode } {
+    const player = this.state.players.get(agentId);
+    if (!player) {
+      return { success: false, message: 'Player not found' };
+    }
+
+    if (!player.isAlive) {
+      return { success: false, message: 'Dead players can only use the ghost channel' };
+    }
+
+    if (this.state.phase !== 'discussion') {
+      return { success: false, message: 'Can only send messages during discussion phase' };
+    }
+
+    const sentThisMeeting = this.state.chatLog.filter((m) => m.senderId === agentId).length;
+    if (this.config.chatMaxMessagesPerMeeting > 0 && sentThisMeeting >= this.config.chatMaxMessagesPerMeeting) {
+      return {
+        success: false,
+        message: `Message limit reached (${this.config.chatMaxMessagesPerMeeting} per meeting)`,
+        error: 'MESSAGE_LIMIT_REACHED'
+      };
+    }
+
+    if (claim !== undefined) {
+      const validation = validateClaim(claim, this.state.ship, Array.from(this.state.players.keys()));
+      if (!validation.valid) {
+        return { success: false, message: `Invalid claim: ${validation.error}`, error: 'INVALID_CLAIM' };
+      }
+    }
+
+    // A claim can stand on its own; spell it out for readers of the transcript
+    const messageText = !text.trim() && claim
+      ? describeClaim(
+          claim,
+          (id) => this.state.players.get(id)?.name || id,
+          (id) => this.state.ship.rooms.get(id)?.name || id
+        )
+      : text;
+
+    const checked = this.checkChatMessage(player, messageText);
+    if ('error' in checked) {
+      return { success: false, ...checked };
+    }
+
+    const chatMessage: ChatMessage = {
+      senderId: agentId,
+      senderName: player.name,
+      message: checked.text,
+      timestamp: Date.now(),
+      ...(claim && { claim: this.pickClaimFields(claim) })
+    };
+    this.state.chatLog.push(chatMessage);
+    player.lastActionTime = chatMessage.timestamp;
+    player.lastChatTime = chatMessage.timestamp;
+
+    this.emitEvent({
+      type: 'chat-message',
+      gameId: this.state.id,
+      timestamp: chatMessage.timestamp,
+      data: {
+        senderId: agentId,
+        senderName: player.name,
+        message: chatMessage.message,
+        channel: 'meeting',
+        ...(chatMessage.claim && { claim: { ...chatMessage.claim } })
+      },
+      visibility: 'specific',
+      specificPlayers: Array.from(this.state.players.values())
+        .filter((p) => p.isAlive)
+        .map((p) => p.agentId)
+    });
+
+    return { success: true, message: 'Message sent', chatMessage };
+  }
+
+  postImposterMessage(
+    agentId: string,
+    text: string
+  ): { success: boolean; message: string; text?: string; error?: ChatErrorCode } {
+    const player = this.state.players.get(agentId);
+    if (!player) {
+      return { success: false, message: 'Player not found' };
+    }
+
+    if (player.role !== 'imposter') {
+      return { success: false, message: 'Only imposters can use the imposter channel' };
+    }
+
+    if (!player.isAlive) {
+      return { success: false, message: 'Dead players can only use the ghost channel' };
+    }
+
+    if (this.state.phase === 'lobby' || this.state.phase === 'ended') {
+      return { success: false, message: 'Game is not in progress' };
+    }
+
+    const checked = this.checkChatMessage(player, text);
+    if ('error' in checked) {
+      return { success: false, ...checked };
+    }
+
+    player.lastActionTime = Date.now();
+    player.lastChatTime = player.lastActionTime;
+
+    this.emitEvent({
+      type: 'chat-message',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        senderId: agentId,
+        senderName: player.name,
+        message: checked.text,
+        channel: 'imposters'
+      },
+      visibility: 'imposters'
+    });
+
+    return { success: true, message: 'Message sent to imposters', text: checked.text };
+  }
+
+  /**
+   * Sanitize a chat message and apply the length and rate limits shared by every channel.
+   */
+  private checkChatMessage(
+    player: Player,
+    text: string
+  ): { text: string } | { message: string; error: ChatErrorCode } {
+    const otherNames = Array.from(this.state.players.values())
+      .filter((p) => p.agentId !== player.agentId)
+      .map((p) => p.name);
+    const sanitized = sanitizeChatMessage(text, otherNames);
+
+    if (!sanitized) {
+      return { message: 'Message cannot be empty', error: 'EMPTY_MESSAGE' };
+    }
+
+    if (sanitized.length > this.config.chatMaxLength) {
+      return {
+        message: `Message too long (${sanitized.length}/${this.config.chatMaxLength} characters)`,
+        error: 'MESSAGE_TOO_LONG'
+      };
+    }
+
+    const sinceLast = player.lastChatTime === undefined ? Infinity : Date.now() - player.lastChatTime;
+    if (sinceLast < this.config.chatMinInterval) {
+      const wait = Math.ceil((this.config.chatMinInterval - sinceLast) / 1000);
+      return { message: `Sending messages too fast (wait ${wait}s)`, error: 'RATE_LIMITED' };
+    }
+
+    return { text: sanitized };
+  }
+
+  // Keep only the known claim fields from client input
+  private pickClaimFields(claim: ChatClaim): ChatClaim {
+    return {
+      type: claim.type,
+      ...(claim.subject !== undefined && { subject: claim.subject }),
+      ...(claim.room !== undefined && { room: claim.room }),
+      ...(claim.time !== undefined && { time: claim.time })
+    };
+  }
+
+  getChatLog(): ChatMessage[] {
+    return [...this.state.chatLog];
+  }
+
+  markReadyToVote(agentId: string): { success: boolean; message: string } {
+    const player = this.state.players.get(agentId);
+    if (!player) {
+      return { success: false, message: 'Player not found' };
+    }
+
+    if (!player.isAlive) {
+      return { success: false, message: 'Dead players cannot vote' };
+    }
+
+    if (this.state.phase !== 'discussion') {
+      return { success: false, message: 'Not in discussion phase' };
+    }
+
+    if (this.state.readyToVote.has(agentId)) {
+      return { success: false, message: 'Already ready to vote' };
+    }
+
+    this.state.readyToVote.add(agentId);
+    player.lastActionTime = Date.now();
+
+    const required = this.getReadyPlayersRequired();
+
+    this.emitEvent({
+      type: 'player-ready',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        playerId: agentId,
+        readyCount: this.state.readyToVote.size,
+        ...(required > 0 && { readyRequired: required })
+      },
+      visibility: 'all'
+    });
+
+    // Skip the rest of discussion once enough players are ready
+    if (required > 0 && this.state.readyToVote.size >= required) {
+      this.startVoting();
+      return { success: true, message: 'Ready to vote - voting has started' };
+    }
+
+    return { success: true, message: 'Ready to vote' };
+  }
+
+  /**
+   * Living players who must be ready to end discussion early, or 0 when the rule is off.
+   */
+  private getReadyPlayersRequired(): number {
+    if (this.config.discussionReadyFraction <= 0) return 0;
+    const alivePlayers = Array.from(this.state.players.values()).filter((p) => p.isAlive).length;
+    return Math.max(1, Math.ceil(alivePlayers * Math.min(1, this.config.discussionReadyFraction)));
+  }
+
   private startVoting(): void {
     this.state.phase = 'voting';
     this.state.votingStartTime = Date.now();
     this.state.votes.clear();
+    this.state.lockedVotes.clear();
 
     this.emitEvent({
       type: 'voting-started',
@@ -663,9 +1519,10 @@ export class GameEngine {
       visibility: 'all'
     });
 
-    // Auto-end voting after voting time
+    // Auto-end voting after voting time, unless this vote already ended early
+    const votingStartTime = this.state.votingStartTime;
     const timer = setTimeout(() => {
-      if (this.state.phase === 'voting') {
+      if (this.state.phase === 'voting' && this.state.votingStartTime === votingStartTime) {
         this.endVoting();
       }
     }, this.config.votingTime);
@@ -686,8 +1543,14 @@ export class GameEngine {
       return { success: false, message: 'Not in voting phase' };
     }
 
-    if (this.state.votes.has(voterId)) {
-      return { success: false, message: 'Already voted' };
+    const previousVote = this.state.votes.get(voterId);
+    if (previousVote !== undefined) {
+      if (!this.config.allowVoteChanges) {
+        return { success: false, message: 'Already voted' };
+      }
+      if (this.state.lockedVotes.has(voterId)) {
+        return { success: false, message: 'Vote is locked in' };
+      }
     }
 
     // Validate target (can be 'skip' or valid alive player ID)
@@ -710,19 +1573,87 @@ export class GameEngine {
       gameId: this.state.id,
       timestamp: Date.now(),
       data: {
-        voterId,
+        ...(!this.config.anonymousVotes && { voterId }),
+        ...(previousVote !== undefined && { changed: true }),
         voteCount: this.state.votes.size,
         totalVoters: alivePlayers
       },
       visibility: 'all'
     });
 
-    // End voting early if all alive players have voted
-    if (this.state.votes.size >= alivePlayers) {
+    // End voting early if all alive players have voted (or locked in, when votes can change)
+    if (!this.config.allowVoteChanges && this.state.votes.size >= alivePlayers) {
       this.endVoting();
     }
 
-    return { success: true, message: 'Vote cast' };
+    return { success: true, message: previousVote !== undefined ? 'Vote changed' : 'Vote cast' };
+  }
+
+  retractVote(voterId: string): { success: boolean; message: string } {
+    const error = this.checkVoteChange(voterId);
+    if (error) {
+      return { success: false, message: error };
+    }
+
+    this.state.votes.delete(voterId);
+
+    this.emitEvent({
+      type: 'vote-retracted',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        ...(!this.config.anonymousVotes && { voterId }),
+        voteCount: this.state.votes.size,
+        totalVoters: Array.from(this.state.players.values()).filter((p) => p.isAlive).length
+      },
+      visibility: 'all'
+    });
+
+    return { success: true, message: 'Vote retracted' };
+  }
+
+  lockVote(voterId: string): { success: boolean; message: string } {
+    const error = this.checkVoteChange(voterId);
+    if (error) {
+      return { success: false, message: error };
+    }
+
+    this.state.lockedVotes.add(voterId);
+
+    const alivePlayers = Array.from(this.state.players.values()).filter((p) => p.isAlive).length;
+
+    this.emitEvent({
+      type: 'vote-locked',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        ...(!this.config.anonymousVotes && { voterId }),
+        lockedCount: this.state.lockedVotes.size,
+        totalVoters: alivePlayers
+      },
+      visibility: 'all'
+    });
+
+    // End voting early once everyone has locked in
+    if (this.state.lockedVotes.size >= alivePlayers) {
+      this.endVoting();
+    }
+
+    return { success: true, message: 'Vote locked in' };
+  }
+
+  /**
+   * Why the voter cannot retract or lock their vote right now, or null if they can.
+   */
+  private checkVoteChange(voterId: string): string | null {
+    const voter = this.state.players.get(voterId);
+    if (!voter) return 'Player not found';
+    if (!voter.isAlive) return 'Dead players cannot vote';
+    if (this.state.phase !== 'voting') return 'Not in voting phase';
+    if (!this.config.allowVoteChanges) return 'Votes are final once cast';
+    if (!this.state.votes.has(voterId)) return 'You have not voted';
+    if (this.state.lockedVotes.has(voterId)) return 'Vote is locked in';
+    return null;
   }
 
   private endVoting(): void {
@@ -748,8 +1679,25 @@ export class GameEngine {
       }
     }
 
-    // Eject only if single winner that isn't skip
-    const ejectedId = (winners.length === 1 && winners[0] !== 'skip') ? winners[0] : null;
+    // Ties eject no one unless configured to pick one of the tied options
+    const tied = winners.length > 1;
+    const chosen = tied && this.config.tieResolution === 'random'
+      ? winners[Math.floor(Math.random() * winners.length)]
+      : winners.length === 1 ? winners[0] : null;
+    const ejectedId = chosen && chosen !== 'skip' ? chosen : null;
+
+    this.emitEvent({
+      type: 'voting-results',
+      gameId: this.state.id,
+      timestamp: Date.now(),
+      data: {
+        tally: Object.fromEntries(voteCounts),
+        ...(!this.config.anonymousVotes && { votes: Object.fromEntries(this.state.votes) }),
+        tied,
+        ejectedId: ejectedId || 'none'
+      },
+      visibility: 'all'
+    });
 
     // Eject player if decided
     let ejectedPlayer: Player | undefined;
@@ -757,6 +1705,7 @@ export class GameEngine {
       ejectedPlayer = this.state.players.get(ejectedId);
       if (ejectedPlayer) {
         ejectedPlayer.isAlive = false;
+        ejectedPlayer.diedAt = Date.now();
         this.state.deadPlayers.add(ejectedId);
       }
     }
@@ -767,7 +1716,8 @@ export class GameEngine {
       timestamp: Date.now(),
       data: {
         playerId: ejectedId || 'none',
-        wasImposter: ejectedPlayer?.role === 'imposter',
+        ...(ejectedPlayer && { playerName: ejectedPlayer.name }),
+        ...(this.config.confirmEjects && { wasImposter: ejectedPlayer?.role === 'imposter' }),
         votesReceived: maxVotes,
         skipped: !ejectedId
       },
@@ -782,6 +1732,7 @@ export class GameEngine {
       this.state.phase = 'playing';
       this.state.meetingCaller = undefined;
       this.state.reportedBody = undefined;
+      this.state.meetingButtonReadyAt = Date.now() + this.config.emergencyCooldown;
     }
   }
 
@@ -796,30 +1747,49 @@ export class GameEngine {
 
     // Imposters win if equal or more than crewmates
     if (aliveImposters >= aliveCrewmates && aliveImposters > 0) {
-      this.endGame('imposters');
+      this.endGame('imposters', 'parity');
       return 'imposters';
     }
 
-    // Crewmates win if no imposters left
+    // Imposters win if a critical sabotage was not fixed in time
+    for (const sabotage of this.state.sabotages.values()) {
+      if (isSabotageExpired(sabotage)) {
+        this.endGame('imposters', 'sabotage');
+        return 'imposters';
+      }
+    }
+
+    // Crewmates win if no imposters left (removed imposters leave imposterIds)
     if (aliveImposters === 0) {
-      this.endGame('crewmates');
+      this.endGame('crewmates', this.state.imposterIds.size > 0 ? 'ejection' : 'forfeit');
       return 'crewmates';
     }
 
-    // Check task completion (crewmates win)
-    const taskProgress = getAllTaskProgress(this.state.tasks);
-    if (taskProgress.percentage >= 100) {
-      this.endGame('crewmates');
+    // Check task completion from every crewmate's assigned tasks (crewmates win)
+    const taskProgress = getCrewTaskProgress(this.state.players.values(), this.config.countDeadCrewmateTasks);
+    if (taskProgress.total > 0 && taskProgress.completed >= taskProgress.total) {
+      this.endGame('crewmates', 'tasks');
       return 'crewmates';
     }
 
+    // Time limit decides the game once expired
+    if (
+      this.config.timeLimit > 0 &&
+      this.state.startedAt !== undefined &&
+      Date.now() - this.state.startedAt >= this.config.timeLimit
+    ) {
+      this.endGame(this.config.timeLimitWinner, 'timeout');
+      return this.config.timeLimitWinner;
+    }
+
     return null;
   }
 
-  private endGame(winner: WinnerType): void {
+  private endGame(winner: WinnerType, reason: WinReason): void {
     this.clearTimers();
     this.state.phase = 'ended';
     this.state.winner = winner;
+    this.state.winReason = reason;
     this.state.endedAt = Date.now();
 
     const duration = Math.round((this.state.endedAt - this.state.createdAt) / 1000);
@@ -830,6 +1800,7 @@ export class GameEngine {
       timestamp: Date.now(),
       data: {
         winner,
+        winReason: reason,
         duration,
         imposters: Array.from(this.state.imposterIds),
         survivors: Array.from(this.state.players.values())
@@ -866,7 +1837,14 @@ export class GameEngine {
   // ============================================================================
 
   getPlayersInRoom(roomId: string): Player[] {
-    return Array.from(this.state.players.values()).filter((p) => p.location === roomId && p.isAlive);
+    // Players hiding in a vent are not in the room as far as anyone can tell
+    return Array.from(this.state.players.values()).filter(
+      (p) => p.location === roomId && p.isAlive && !this.isInVent(p)
+    );
+  }
+
+  getBodiesInRoom(roomId: string): DeadBody[] {
+    return Array.from(this.state.bodies.values()).filter((b) => b.room === roomId);
   }
 
   getPlayerState(agentId: string): {
@@ -881,9 +1859,11 @@ export class GameEngine {
     const player = this.state.players.get(agentId);
     if (!player) return null;
 
-    const nearbyPlayers = this.getPlayersInRoom(player.location)
-      .filter((p) => p.agentId !== agentId)
-      .map((p) => p.name);
+    const nearbyPlayers = this.hasReducedVision(player)
+      ? []
+      : this.getPlayersInRoom(player.location)
+          .filter((p) => p.agentId !== agentId)
+          .map((p) => p.name);
 
     const result: ReturnType<typeof this.getPlayerState> = {
       role: player.role,
@@ -896,20 +1876,77 @@ export class GameEngine {
     if (player.role === 'imposter') {
       const now = Date.now();
       const canKill = !player.lastKillTime || now - player.lastKillTime >= this.config.killCooldown;
-      result.canKill = canKill && nearbyPlayers.length > 0;
+      result.canKill = canKill && nearbyPlayers.length > 0 && !this.isInVent(player);
       
       if (!canKill && player.lastKillTime) {
         result.killCooldown = Math.ceil((this.config.killCooldown - (now - player.lastKillTime)) / 1000);
       }
     }
 
-    if (player.role === 'crewmate') {
+    if (player.role === 'crewmate' && !this.hasCommsBlackout(player)) {
       result.tasksRemaining = player.taskIds.length - player.completedTaskIds.length;
     }
 
     return result;
   }
 
+  hasCriticalSabotage(): boolean {
+    return Array.from(this.state.sabotages.keys()).some((system) => isCriticalSabotage(system));
+  }
+
+  getLockedRooms(): Set<string> {
+    return new Set(this.state.lockedDoors.keys());
+  }
+
+  /**
+   * Living players in a room, other than the actor, who can see what happens there.
+   */
+  private getObservers(roomId: string, actorId: string): string[] {
+    return this.getPlayersInRoom(roomId)
+      .filter((p) => p.agentId !== actorId && !this.hasReducedVision(p))
+      .map((p) => p.agentId);
+  }
+
+  /**
+   * Living players other than the killer and victim who can see a kill.
+   * Crewmates in the dark see nothing.
+   */
+  private getKillWitnesses(killer: Player, targetId: string): Player[] {
+    return this.getPlayersInRoom(killer.location).filter(
+      (p) => p.agentId !== killer.agentId && p.agentId !== targetId && !this.hasReducedVision(p)
+    );
+  }
+
+  private getSabotageCooldownRemaining(now: number = Date.now()): number {
+    if (!this.state.lastSabotageTime) return 0;
+    return Math.max(0, this.config.sabotageCooldown - (now - this.state.lastSabotageTime));
+  }
+
+  private getMeetingCooldownRemaining(now: number = Date.now()): number {
+    if (!this.state.meetingButtonReadyAt) return 0;
+    return Math.max(0, this.state.meetingButtonReadyAt - now);
+  }
+
+  // The player's own task instance, with its randomized parameters
+  private getPlayerTask(player: Player, taskId: string): GameTask | undefined {
+    return player.tasks.get(taskId);
+  }
+
+  /**
+   * Crewmates cannot see who is around them while lights are sabotaged.
+   * Imposters keep full vision.
+   */
+  hasReducedVision(player: Player): boolean {
+    return player.role === 'crewmate' && player.isAlive && this.state.sabotages.has('lights');
+  }
+
+  /**
+   * Crewmates lose their task list and progress while comms are sabotaged.
+   */
+  hasCommsBlackout(player: Player): boolean {
+    return player.role === 'crewmate' && this.state.sabotages.has('comms');
+  }
+
   reset(): void {
     this.clearTimers();
     this.state = this.createInitialState();
@@ -943,12 +1980,23 @@ export class GameEngine {
     canDoTasks: Array<{ taskId: string; description: string; currentStep: number; totalSteps: number; nextStepDescription?: string }>;
     canKill: boolean;
     killTargets: string[];
+    canKillUnseen: boolean;
     canVent: boolean;
+    inVent: boolean;
     ventTargets: string[];
     canCallMeeting: boolean;
     canReportBody: boolean;
     deadBodies: string[];
     canVote: boolean;
+    canLockVote: boolean;
+    canReadyToVote: boolean;
+    canFixSabotage: boolean;
+    canSabotage: boolean;
+    sabotageCooldown: number;
+    meetingCooldownRemaining: number;
+    canViewCameras: boolean;
+    canViewAdminMap: boolean;
+    canCheckVitals: boolean;
   } {
     const player = this.state.players.get(agentId);
     if (!player) {
@@ -957,35 +2005,81 @@ export class GameEngine {
         canDoTasks: [],
         canKill: false,
         killTargets: [],
+        canKillUnseen: false,
         canVent: false,
+        inVent: false,
         ventTargets: [],
         canCallMeeting: false,
         canReportBody: false,
         deadBodies: [],
-        canVote: false
+        canVote: false,
+        canLockVote: false,
+        canReadyToVote: false,
+        canFixSabotage: false,
+        canSabotage: false,
+        sabotageCooldown: 0,
+        meetingCooldownRemaining: 0,
+        canViewCameras: false,
+        canViewAdminMap: false,
+        canCheckVitals: false
       };
     }
 
     const currentRoom = this.state.ship.rooms.get(player.location);
+    const lockedRooms = this.getLockedRooms();
+    const inVent = this.isInVent(player);
+    const meetingCooldown = this.getMeetingCooldownRemaining();
+    // Ghosts can move to any room
+    const reachableRooms = player.isAlive
+      ? (currentRoom?.connectedRooms || []).filter((roomId) =>
+          areRoomsAdjacent(this.state.ship, player.location, roomId, lockedRooms)
+        )
+      : Array.from(this.state.ship.rooms.keys()).filter((roomId) => roomId !== player.location);
     const result = {
-      canMove: currentRoom?.connectedRooms || [],
+      canMove: player.activeTask || inVent ? [] : reachableRooms,
       canDoTasks: [] as Array<{ taskId: string; description: string; currentStep: number; totalSteps: number; nextStepDescription?: string }>,
       canKill: false,
       killTargets: [] as string[],
+      canKillUnseen: false,
       canVent: false,
+      inVent,
       ventTargets: [] as string[],
-      canCallMeeting: this.state.phase === 'playing' && player.isAlive,
+      canCallMeeting:
+        this.state.phase === 'playing' &&
+        player.isAlive &&
+        !inVent &&
+        player.location === EMERGENCY_BUTTON_ROOM &&
+        player.emergencyMeetingsUsed < this.config.emergencyMeetings &&
+        meetingCooldown === 0 &&
+        !this.hasCriticalSabotage(),
       canReportBody: false,
       deadBodies: [] as string[],
-      canVote: this.state.phase === 'voting' && player.isAlive && !this.state.votes.has(agentId)
+      canVote:
+        this.state.phase === 'voting' &&
+        player.isAlive &&
+        (!this.state.votes.has(agentId) || (this.config.allowVoteChanges && !this.state.lockedVotes.has(agentId))),
+      canLockVote: this.checkVoteChange(agentId) === null,
+      canReadyToVote: this.state.phase === 'discussion' && player.isAlive && !this.state.readyToVote.has(agentId),
+      canFixSabotage: false,
+      canSabotage: false,
+      sabotageCooldown: 0,
+      meetingCooldownRemaining: Math.ceil(meetingCooldown / 1000),
+      canViewCameras: this.checkDeviceUse(player, 'cameras', SECURITY_ROOM) === null,
+      canViewAdminMap: this.checkDeviceUse(player, 'admin-map', this.config.adminMapRoom) === null,
+      canCheckVitals: this.checkDeviceUse(player, 'vitals', VITALS_ROOM) === null
     };
 
-    // Tasks for crewmates
-    if (player.role === 'crewmate' && player.isAlive && this.state.phase === 'playing') {
+    // Tasks for crewmates (ghosts included), unless one is already in progress
+    if (
+      player.role === 'crewmate' &&
+      this.state.phase === 'playing' &&
+      !player.activeTask &&
+      !this.hasCommsBlackout(player)
+    ) {
       for (const taskId of player.taskIds) {
         if (!player.completedTaskIds.includes(taskId)) {
-          const task = this.state.tasks.get(taskId);
-          if (task && task.room === player.location) {
+          const task = this.getPlayerTask(player, taskId);
+          if (task && canCompleteTask(task, player.location, player.completedTaskIds).canComplete) {
             const currentStep = player.taskSteps.get(taskId) || 0;
             const nextStepDescription = task.steps[currentStep]?.description || '';
             result.canDoTasks.push({
@@ -1005,31 +2099,43 @@ export class GameEngine {
       const now = Date.now();
       const canKillNow = !player.lastKillTime || now - player.lastKillTime >= this.config.killCooldown;
       
-      if (canKillNow) {
+      if (canKillNow && !inVent) {
         const playersInRoom = this.getPlayersInRoom(player.location);
         result.killTargets = playersInRoom
           .filter((p) => p.agentId !== agentId && p.isAlive)
           .map((p) => p.agentId);
         result.canKill = result.killTargets.length > 0;
+        // Hint: at least one target can be killed with nobody watching
+        result.canKillUnseen = result.killTargets.some(
+          (targetId) => this.getKillWitnesses(player, targetId).length === 0
+        );
       }
 
-      // Vent actions
+      // Vent actions: enter or exit here; travel only from inside
       if (currentRoom?.hasVent) {
-        const ventConnections = this.state.ship.vents.get(player.location);
         result.canVent = true;
-        result.ventTargets = ventConnections || [];
+        result.ventTargets = inVent ? this.state.ship.vents.get(player.location) || [] : [];
       }
+
+      // Sabotage (cooldown in seconds, shared by all imposters)
+      const cooldownRemaining = this.getSabotageCooldownRemaining(now);
+      result.sabotageCooldown = Math.ceil(cooldownRemaining / 1000);
+      result.canSabotage = cooldownRemaining === 0;
     }
 
-    // Dead bodies in current room
-    if (player.isAlive && this.state.phase === 'playing') {
-      const playersInRoom = Array.from(this.state.players.values()).filter(
-        (p) => p.location === player.location && !p.isAlive
-      );
-      result.deadBodies = playersInRoom.map((p) => p.agentId);
+    // Dead bodies in current room (hidden in the dark and from inside vents)
+    if (player.isAlive && this.state.phase === 'playing' && !inVent && !this.hasReducedVision(player)) {
+      result.deadBodies = this.getBodiesInRoom(player.location).map((b) => b.victimId);
       result.canReportBody = result.deadBodies.length > 0;
     }
 
+    // Sabotages fixable from current room
+    if (player.isAlive && this.state.phase === 'playing' && !inVent) {
+      result.canFixSabotage = Array.from(this.state.sabotages.values()).some((s) =>
+        getRemainingFixRooms(s).includes(player.location)
+      );
+    }
+
     return result;
   }
 
@@ -1054,6 +2160,7 @@ export class GameEngine {
     startedAt: number;
     endedAt?: number;
     winner?: WinnerType;
+    winReason?: WinReason;
     config: Partial<GameConfig>;
     events: GameEvent[];
     messages: Array<{
@@ -1066,17 +2173,31 @@ export class GameEngine {
       success: boolean;
     }>;
   } {
+    // Imposter-channel chat stays secret until the game is over
+    const hideImposterChat = this.state.phase !== 'ended';
     return {
       id: this.state.id,
       startedAt: this.state.createdAt,
       endedAt: this.state.endedAt,
       winner: this.state.winner,
+      winReason: this.state.winReason,
       config: this.config,
-      events: this.eventLog,
-      messages: this.messageLog
+      events: hideImposterChat
+        ? this.eventLog.filter((e) => !(e.type === 'chat-message' && e.data.channel === 'imposters'))
+        : this.eventLog,
+      messages: hideImposterChat
+        ? this.messageLog.filter((m) => !(m.skillId === 'send-message' && this.isImposterChatRequest(m.request)))
+        : this.messageLog
     };
   }
 
+  // Judge by what was asked, not the outcome: rejected sends still carry their text
+  private isImposterChatRequest(request: unknown): boolean {
+    const parts = (request as { message?: { parts?: Array<{ kind?: string; data?: Record<string, unknown> }> } } | undefined)
+      ?.message?.parts;
+    return (parts || []).some((part) => part.kind === 'data' && part.data?.channel === 'imposters');
+  }
+
   getTasksInRoom(roomId: string): Array<{ taskId: string; description: string; type: string }> {
     const tasks: Array<{ taskId: string; description: string; type: string }> = [];
     
@@ -1093,26 +2214,40 @@ export class GameEngine {
     return tasks;
   }
 
-  getRoomInfo(roomId: string): {
+  getRoomInfo(roomId: string, viewerId?: string): {
     name: string;
     description: string;
     connectedRooms: Array<{ id: string; name: string }>;
     hasVent: boolean;
     ventConnections: string[];
     tasksAvailable: number;
-    playersPresent: Array<{ agentId: string; name: string; isAlive: boolean }>;
+    playersPresent: Array<{ agentId: string; name: string; isAlive: boolean; doingTask: boolean }>;
+    bodies: Array<{ agentId: string; name: string }>;
   } | null {
     const room = this.state.ship.rooms.get(roomId);
     if (!room) return null;
 
+    // Viewers without vision get an empty room listing
+    const viewer = viewerId ? this.state.players.get(viewerId) : undefined;
+    const canSee = !viewer || !this.hasReducedVision(viewer);
+
+    // Ghosts are invisible; the dead only show up as bodies
     const playersPresent = Array.from(this.state.players.values())
-      .filter((p) => p.location === roomId)
+      .filter((p) => canSee && p.isAlive && p.location === roomId && !this.isInVent(p))
       .map((p) => ({
         agentId: p.agentId,
         name: p.name,
-        isAlive: p.isAlive
+        isAlive: p.isAlive,
+        doingTask: p.activeTask !== undefined
       }));
 
+    const bodies = canSee
+      ? this.getBodiesInRoom(roomId).map((b) => ({
+          agentId: b.victimId,
+          name: this.state.players.get(b.victimId)?.name || b.victimId
+        }))
+      : [];
+
     const connectedRooms = room.connectedRooms.map((id) => {
       const connectedRoom = this.state.ship.rooms.get(id);
       return {
@@ -1128,7 +2263,8 @@ export class GameEngine {
       hasVent: room.hasVent,
       ventConnections: this.state.ship.vents.get(roomId) || [],
       tasksAvailable: room.taskIds.length,
-      playersPresent
+      playersPresent,
+      bodies
     };
   }
 
@@ -1137,7 +2273,7 @@ export class GameEngine {
     if (!player) return 'Player not found';
 
     const actions = this.getAvailableActions(agentId);
-    const roomInfo = this.getRoomInfo(player.location);
+    const roomInfo = this.getRoomInfo(player.location, agentId);
     
     let context = `=== GAME STATE ===\n`;
     context += `Phase: ${this.state.phase}\n`;
@@ -1145,14 +2281,43 @@ export class GameEngine {
     context += `Location: ${roomInfo?.name || player.location}\n`;
     context += `Alive: ${player.isAlive ? 'Yes' : 'No'}\n\n`;
 
+    if (this.state.sabotages.size > 0) {
+      context += `=== SABOTAGE ===\n`;
+      for (const sabotage of this.state.sabotages.values()) {
+        const rooms = getRemainingFixRooms(sabotage).map((id) => this.state.ship.rooms.get(id)?.name || id).join(', ');
+        const countdown = sabotage.deadline !== undefined
+          ? ` - ${Math.max(0, Math.ceil((sabotage.deadline - Date.now()) / 1000))}s left`
+          : '';
+        context += `${sabotage.system} sabotaged${countdown} (fix in: ${rooms})\n`;
+      }
+      context += `\n`;
+    }
+
     if (roomInfo) {
       context += `=== CURRENT ROOM ===\n`;
       context += `${roomInfo.description}\n`;
-      context += `Players here: ${roomInfo.playersPresent.map((p) => `${p.name}${p.isAlive ? '' : ' (dead)'}`).join(', ') || 'none'}\n`;
-      context += `Connected rooms: ${roomInfo.connectedRooms.map((r) => r.name).join(', ')}\n\n`;
+      if (this.hasReducedVision(player)) {
+        context += `Lights are out - you cannot see who is here\n`;
+      }
+      const present = roomInfo.playersPresent.map((p) => (p.doingTask ? `${p.name} (doing a task)` : p.name));
+      context += `Players here: ${present.join(', ') || 'none'}\n`;
+      if (roomInfo.bodies.length > 0) {
+        context += `Bodies here: ${roomInfo.bodies.map((b) => b.name).join(', ')}\n`;
+      }
+      context += `Connected rooms: ${roomInfo.connectedRooms.map((r) => r.name).join(', ')}\n`;
+      if (this.state.lockedDoors.size > 0) {
+        const locked = Array.from(this.state.lockedDoors.keys()).map((id) => this.state.ship.rooms.get(id)?.name || id);
+        context += `Doors locked: ${locked.join(', ')}\n`;
+      }
+      context += `\n`;
     }
 
     context += `=== AVAILABLE ACTIONS ===\n`;
+
+    if (player.activeTask) {
+      const remaining = Math.max(0, Math.ceil((player.activeTask.endsAt - Date.now()) / 1000));
+      context += `• Doing a task (${remaining}s left) - you cannot move until it finishes\n`;
+    }
     
     if (actions.canMove.length > 0) {
       context += `• Move to: ${actions.canMove.map((id) => this.state.ship.rooms.get(id)?.name || id).join(', ')}\n`;
@@ -1166,26 +2331,63 @@ export class GameEngine {
     }
 
     if (actions.canKill) {
-      context += `• Kill available (${actions.killTargets.length} targets)\n`;
+      context += `• Kill available (${actions.killTargets.length} targets${actions.canKillUnseen ? ', no witnesses' : ''})\n`;
+    }
+
+    if (actions.inVent) {
+      const targets = actions.ventTargets.map((id) => this.state.ship.rooms.get(id)?.name || id);
+      context += `• Hiding in a vent - crawl to: ${targets.join(', ') || 'nowhere'}, or exit to appear\n`;
+    } else if (actions.canVent) {
+      context += `• Vent available (enter to hide and travel)\n`;
     }
 
-    if (actions.canVent) {
-      context += `• Vent available (${actions.ventTargets.length} connections)\n`;
+    if (actions.canSabotage) {
+      context += `• Sabotage available\n`;
+    } else if (actions.sabotageCooldown > 0) {
+      context += `• Sabotage on cooldown (${actions.sabotageCooldown}s)\n`;
     }
 
     if (actions.canCallMeeting) {
       context += `• Can call emergency meeting\n`;
+    } else if (actions.meetingCooldownRemaining > 0 && player.isAlive) {
+      context += `• Emergency button on cooldown (${actions.meetingCooldownRemaining}s)\n`;
     }
 
     if (actions.canReportBody) {
       context += `• Can report body (${actions.deadBodies.length} bodies here)\n`;
     }
 
+    if (actions.canFixSabotage) {
+      context += `• Can fix sabotage here\n`;
+    }
+
+    if (actions.canViewCameras) {
+      context += `• Can view security cameras\n`;
+    }
+
+    if (actions.canViewAdminMap) {
+      context += `• Can check the admin map\n`;
+    }
+
+    if (actions.canCheckVitals) {
+      context += `• Can check vitals\n`;
+    }
+
     if (actions.canVote) {
-      context += `• Can vote\n`;
+      context += this.state.votes.has(agentId) ? `• Can change your vote\n` : `• Can vote\n`;
+    }
+
+    if (actions.canLockVote) {
+      context += `• Can lock in your vote\n`;
+    }
+
+    if (actions.canReadyToVote) {
+      context += `• Can signal ready to vote (ends discussion early once enough players are ready)\n`;
     }
 
-    if (player.role === 'crewmate') {
+    if (this.hasCommsBlackout(player)) {
+      context += `\nTasks: Comms down - task list unavailable\n`;
+    } else if (player.role === 'crewmate') {
       const tasksRemaining = player.taskIds.length - player.completedTaskIds.length;
       context += `\nTasks: ${player.completedTaskIds.length}/${player.taskIds.length} completed (${tasksRemaining} remaining)\n`;
     }
@@ -6,8 +6,22 @@
 
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { GameEngine } from './engine';
+import { createAllTasks, createTaskInstance } from './tasks';
 import type { Player } from '@elizagames/shared';
 
+// Hand a player fresh instances of these tasks, as startGame does
+function assignTasks(player: Player, taskIds: string[]): void {
+  const catalog = createAllTasks();
+  player.taskIds = taskIds;
+  player.tasks = new Map(taskIds.map((taskId) => [taskId, createTaskInstance(catalog.get(taskId)!)]));
+}
+
+// Answer the current step from its prompt, the way a bot would
+function promptAnswer(player: Player, taskId: string): string {
+  const step = player.tasks.get(taskId)!.steps[player.taskSteps.get(taskId) || 0];
+  return step.expectedInput ?? step.description;
+}
+
 describe('Full Game Integration Test', () => {
   let engine: GameEngine;
   let crewmate1: Player;
@@ -17,7 +31,7 @@ describe('Full Game Integration Test', () => {
   let imposter: Player;
 
   beforeEach(() => {
-    engine = new GameEngine();
+    engine = new GameEngine({ taskDurationMultiplier: 0, emergencyCooldown: 0 });
   });
 
   test('COMPLETE GAME SIMULATION - All Features', () => {
@@ -131,7 +145,7 @@ describe('Full Game Integration Test', () => {
     console.log('\n=== PHASE 4: TASK COMPLETION ===');
     
     // Test 1: Single-step task (MedBay Scan)
-    crewmate3.taskIds = ['medbay-scan'];
+    assignTasks(crewmate3, ['medbay-scan']);
     crewmate3.completedTaskIds = [];
     crewmate3.location = 'medbay';
     
@@ -142,28 +156,28 @@ describe('Full Game Integration Test', () => {
     console.log('✓ MedBay Scan completed (single-step)');
     
     // Test 2: Multi-step task (Wiring)
-    crewmate2.taskIds = ['wiring-electrical'];
+    assignTasks(crewmate2, ['wiring-electrical']);
     crewmate2.completedTaskIds = [];
     crewmate2.location = 'electrical';
     
-    result = engine.completeTaskStep(crewmate2.agentId, 'wiring-electrical', 'red');
+    result = engine.completeTaskStep(crewmate2.agentId, 'wiring-electrical', promptAnswer(crewmate2, 'wiring-electrical'));
     expect(result.success).toBe(true);
     expect(result.completed).toBe(false);
     console.log('✓ Wiring step 1/3 completed');
     
-    result = engine.completeTaskStep(crewmate2.agentId, 'wiring-electrical', 'blue');
+    result = engine.completeTaskStep(crewmate2.agentId, 'wiring-electrical', promptAnswer(crewmate2, 'wiring-electrical'));
     expect(result.success).toBe(true);
     expect(result.completed).toBe(false);
     console.log('✓ Wiring step 2/3 completed');
     
-    result = engine.completeTaskStep(crewmate2.agentId, 'wiring-electrical', 'yellow');
+    result = engine.completeTaskStep(crewmate2.agentId, 'wiring-electrical', promptAnswer(crewmate2, 'wiring-electrical'));
     expect(result.success).toBe(true);
     expect(result.completed).toBe(true);
     expect(crewmate2.completedTaskIds).toContain('wiring-electrical');
     console.log('✓ Wiring step 3/3 completed (multi-step)');
     
     // Test 3: Wrong input rejected
-    crewmate2.taskIds = ['wiring-security'];
+    assignTasks(crewmate2, ['wiring-security']);
     crewmate2.completedTaskIds = [];
     crewmate2.location = 'security';
     engine.movePlayer(crewmate2.agentId, 'lower-hallway');
@@ -174,7 +188,7 @@ describe('Full Game Integration Test', () => {
     console.log('✓ Wrong task input rejected');
     
     // Test 4: Linked tasks (Fuel)
-    crewmate4.taskIds = ['fuel-download', 'fuel-upload'];
+    assignTasks(crewmate4, ['fuel-download', 'fuel-upload']);
     crewmate4.completedTaskIds = [];
     crewmate4.location = 'storage';
     
@@ -187,32 +201,32 @@ describe('Full Game Integration Test', () => {
     // Actually, we already completed download, so let's test this with a fresh player
     
     // Test 5: Reactor code
-    crewmate2.taskIds.push('reactor-unlock');
+    assignTasks(crewmate2, [...crewmate2.taskIds, 'reactor-unlock']);
     crewmate2.location = 'reactor';
     engine.movePlayer(crewmate2.agentId, 'reactor');
     
-    result = engine.completeTaskStep(crewmate2.agentId, 'reactor-unlock', '1234');
+    result = engine.completeTaskStep(crewmate2.agentId, 'reactor-unlock', '0000');
     expect(result.success).toBe(false);
     console.log('✓ Wrong reactor code rejected');
     
-    result = engine.completeTaskStep(crewmate2.agentId, 'reactor-unlock', '1428');
+    result = engine.completeTaskStep(crewmate2.agentId, 'reactor-unlock', promptAnswer(crewmate2, 'reactor-unlock'));
     expect(result.success).toBe(true);
     expect(result.completed).toBe(true);
     console.log('✓ Correct reactor code accepted');
     
     // Test 6: Navigation coordinates
-    crewmate1.taskIds = ['navigation-course'];
+    assignTasks(crewmate1, ['navigation-course']);
     crewmate1.completedTaskIds = [];
     crewmate1.location = 'navigation';
     engine.movePlayer(crewmate1.agentId, 'navigation');
     
-    result = engine.completeTaskStep(crewmate1.agentId, 'navigation-course', 'X=45, Y=72');
+    result = engine.completeTaskStep(crewmate1.agentId, 'navigation-course', promptAnswer(crewmate1, 'navigation-course'));
     expect(result.success).toBe(true);
     expect(result.completed).toBe(true);
     console.log('✓ Navigation coordinates accepted');
     
     // Test 7: Weapons
-    crewmate1.taskIds.push('weapons-asteroids');
+    assignTasks(crewmate1, [...crewmate1.taskIds, 'weapons-asteroids']);
     crewmate1.location = 'weapons';
     engine.movePlayer(crewmate1.agentId, 'weapons');
     
@@ -221,7 +235,7 @@ describe('Full Game Integration Test', () => {
     console.log('✓ Weapons asteroids completed');
     
     // Test 8: Shields
-    crewmate1.taskIds.push('shields-prime');
+    assignTasks(crewmate1, [...crewmate1.taskIds, 'shields-prime']);
     crewmate1.location = 'shields';
     engine.movePlayer(crewmate1.agentId, 'shields');
     
@@ -230,7 +244,7 @@ describe('Full Game Integration Test', () => {
     console.log('✓ Shields prime completed');
     
     // Test 9: Trash
-    crewmate3.taskIds.push('trash-cafeteria');
+    assignTasks(crewmate3, [...crewmate3.taskIds, 'trash-cafeteria']);
     crewmate3.location = 'cafeteria';
     engine.movePlayer(crewmate3.agentId, 'cafeteria');
     
@@ -239,7 +253,7 @@ describe('Full Game Integration Test', () => {
     console.log('✓ Trash completed');
     
     // Test 10: Task in wrong room
-    crewmate3.taskIds.push('wiring-electrical');
+    assignTasks(crewmate3, [...crewmate3.taskIds, 'wiring-electrical']);
     crewmate3.location = 'cafeteria'; // Not in electrical
     
     result = engine.completeTaskStep(crewmate3.agentId, 'wiring-electrical', 'red');
@@ -0,0 +1,66 @@
+/**
+ * Sabotage Definitions Tests
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createShipLayout } from './ship';
+import {
+  SABOTAGE_SYSTEMS,
+  createSabotage,
+  getRemainingFixRooms,
+  getSabotageFixRooms,
+  isCriticalSabotage,
+  isSabotageExpired,
+  isSabotageSystem
+} from './sabotage';
+
+describe('Sabotage Definitions', () => {
+  test('should recognize valid systems', () => {
+    expect(isSabotageSystem('reactor')).toBe(true);
+    expect(isSabotageSystem('doors')).toBe(false);
+    expect(isSabotageSystem(42)).toBe(false);
+  });
+
+  test('should only treat oxygen and reactor as critical', () => {
+    expect(isCriticalSabotage('oxygen')).toBe(true);
+    expect(isCriticalSabotage('reactor')).toBe(true);
+    expect(isCriticalSabotage('lights')).toBe(false);
+    expect(isCriticalSabotage('comms')).toBe(false);
+  });
+
+  test('should fix every system in existing rooms', () => {
+    const ship = createShipLayout();
+    for (const system of SABOTAGE_SYSTEMS) {
+      const rooms = getSabotageFixRooms(system);
+      expect(rooms.length).toBeGreaterThan(0);
+      for (const room of rooms) {
+        expect(ship.rooms.has(room)).toBe(true);
+      }
+    }
+  });
+
+  test('should give critical sabotages a deadline', () => {
+    const reactor = createSabotage('reactor', 'agent-1', 30000, 1000);
+    expect(reactor.deadline).toBe(31000);
+
+    const lights = createSabotage('lights', 'agent-1', 30000, 1000);
+    expect(lights.deadline).toBeUndefined();
+  });
+
+  test('should track remaining fix rooms', () => {
+    const oxygen = createSabotage('oxygen', 'agent-1', 30000);
+    expect(getRemainingFixRooms(oxygen)).toEqual(['navigation', 'shields']);
+
+    oxygen.fixedRooms.push('shields');
+    expect(getRemainingFixRooms(oxygen)).toEqual(['navigation']);
+  });
+
+  test('should expire only after the deadline', () => {
+    const reactor = createSabotage('reactor', 'agent-1', 30000, 1000);
+    expect(isSabotageExpired(reactor, 30999)).toBe(false);
+    expect(isSabotageExpired(reactor, 31000)).toBe(true);
+
+    const comms = createSabotage('comms', 'agent-1', 30000, 1000);
+    expect(isSabotageExpired(comms, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+});
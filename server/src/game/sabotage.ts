@@ -0,0 +1,56 @@
+/**
+ * Sabotage Definitions
+ * Defines sabotageable systems, where they are fixed, and their countdowns
+ */
+
+import type { ActiveSabotage, SabotageSystem } from '@elizagames/shared';
+
+export const SABOTAGE_SYSTEMS: SabotageSystem[] = ['oxygen', 'reactor', 'lights', 'comms'];
+
+// Rooms that must each be fixed to resolve a sabotage
+const FIX_ROOMS: Record<SabotageSystem, string[]> = {
+  oxygen: ['navigation', 'shields'],
+  reactor: ['reactor', 'engine'],
+  lights: ['electrical'],
+  comms: ['storage']
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export function isSabotageSystem(value: unknown): value is SabotageSystem {
+  return typeof value === 'string' && (SABOTAGE_SYSTEMS as string[]).includes(value);
+}
+
+export function isCriticalSabotage(system: SabotageSystem): boolean {
+  return system === 'oxygen' || system === 'reactor';
+}
+
+export function getSabotageFixRooms(system: SabotageSystem): string[] {
+  return [...FIX_ROOMS[system]];
+}
+
+export function createSabotage(
+  system: SabotageSystem,
+  triggeredBy: string,
+  criticalTime: number,
+  now: number = Date.now()
+): ActiveSabotage {
+  return {
+    system,
+    triggeredBy,
+    startedAt: now,
+    ...(isCriticalSabotage(system) && { deadline: now + criticalTime }),
+    fixRooms: getSabotageFixRooms(system),
+    fixedRooms: []
+  };
+}
+
+export function getRemainingFixRooms(sabotage: ActiveSabotage): string[] {
+  return sabotage.fixRooms.filter((room) => !sabotage.fixedRooms.includes(room));
+}
+
+export function isSabotageExpired(sabotage: ActiveSabotage, now: number = Date.now()): boolean {
+  return sabotage.deadline !== undefined && now >= sabotage.deadline;
+}
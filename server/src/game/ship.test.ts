@@ -36,6 +36,13 @@ describe('Ship Layout', () => {
       expect(areRoomsAdjacent(ship, 'invalid', 'cafeteria')).toBe(false);
       expect(areRoomsAdjacent(ship, 'cafeteria', 'invalid')).toBe(false);
     });
+
+    test('should block movement into and out of locked rooms', () => {
+      const locked = new Set(['storage']);
+      expect(areRoomsAdjacent(ship, 'cafeteria', 'storage', locked)).toBe(false);
+      expect(areRoomsAdjacent(ship, 'storage', 'electrical', locked)).toBe(false);
+      expect(areRoomsAdjacent(ship, 'cafeteria', 'medbay', locked)).toBe(true);
+    });
   });
 
   describe('Vent Connections', () => {
@@ -13,7 +13,7 @@ export function createShipLayout(): ShipLayout {
     id: 'cafeteria',
     name: 'Cafeteria',
     description: 'Central meeting area with tables and emergency button',
-    taskIds: ['trash-cafeteria'],
+    taskIds: ['trash-cafeteria', 'upload-cafeteria'],
     connectedRooms: ['upper-hallway', 'storage', 'medbay'],
     hasVent: false
   });
@@ -132,9 +132,16 @@ export function createShipLayout(): ShipLayout {
 // Helper Functions
 // ============================================================================
 
-export function areRoomsAdjacent(ship: ShipLayout, from: string, to: string): boolean {
+export function areRoomsAdjacent(
+  ship: ShipLayout,
+  from: string,
+  to: string,
+  lockedRooms: ReadonlySet<string> = new Set()
+): boolean {
   const fromRoom = ship.rooms.get(from);
   if (!fromRoom) return false;
+  // Locked doors block movement both into and out of a room
+  if (lockedRooms.has(from) || lockedRooms.has(to)) return false;
   return fromRoom.connectedRooms.includes(to);
 }
 
@@ -6,9 +6,14 @@ import { describe, test, expect } from 'bun:test';
 import {
   createAllTasks,
   assignTasksToPlayer,
+  createTaskInstance,
+  getTasksByCategory,
+  getTaskChain,
+  selectCommonTasks,
   validateTaskCompletion,
   getPlayerTaskProgress,
   getAllTaskProgress,
+  getCrewTaskProgress,
   canCompleteTask
 } from './tasks';
 
@@ -32,10 +37,30 @@ describe('Tasks', () => {
 
       expect(fuelDownload).toBeDefined();
       expect(fuelUpload).toBeDefined();
-      expect(fuelDownload?.linkedTaskId).toBe('fuel-upload');
+      expect(fuelDownload?.linkedTaskId).toBeUndefined();
       expect(fuelUpload?.linkedTaskId).toBe('fuel-download');
     });
 
+    test('should categorize every task', () => {
+      const tasks = createAllTasks();
+      for (const task of tasks.values()) {
+        expect(['common', 'short', 'long']).toContain(task.category);
+      }
+    });
+
+    test('should chain long tasks across rooms', () => {
+      const tasks = createAllTasks();
+      const longTasks = getTasksByCategory(tasks, 'long');
+
+      expect(longTasks.length).toBeGreaterThan(0);
+      for (const task of longTasks) {
+        const chain = getTaskChain(tasks, task.id);
+        expect(chain.length).toBeGreaterThan(1);
+        expect(new Set(chain.map((id) => tasks.get(id)!.room)).size).toBe(chain.length);
+      }
+      expect(getTaskChain(tasks, 'fuel-download')).toEqual(['fuel-download', 'fuel-upload']);
+    });
+
     test('should have tasks in correct rooms', () => {
       const tasks = createAllTasks();
       const wiringElectrical = tasks.get('wiring-electrical');
@@ -47,27 +72,124 @@ describe('Tasks', () => {
   });
 
   describe('Task Assignment', () => {
+    const mix = { commonTaskIds: ['wiring-electrical'], shortTasks: 2, longTasks: 1 };
+
     test('should assign random tasks to player', () => {
       const tasks = createAllTasks();
-      const assigned = assignTasksToPlayer(tasks, 5);
+      const assigned = assignTasksToPlayer(tasks, mix);
 
       expect(assigned.length).toBe(5);
-      expect(new Set(assigned).size).toBe(5); // All unique
+      expect(new Set(assigned.map((t) => t.id)).size).toBe(5); // All unique
+    });
+
+    test('should honor the configured task mix', () => {
+      const tasks = createAllTasks();
+      const assigned = assignTasksToPlayer(tasks, mix);
+
+      expect(assigned[0].id).toBe('wiring-electrical');
+      expect(assigned.filter((t) => t.category === 'short').length).toBe(2);
+      const longParts = assigned.filter((t) => t.category === 'long');
+      expect(longParts.length).toBe(2);
+      expect(longParts[1].linkedTaskId).toBe(longParts[0].id);
+    });
+
+    test('should select the same common tasks for everyone from the common pool', () => {
+      const tasks = createAllTasks();
+      const common = selectCommonTasks(tasks, 1);
+
+      expect(common.length).toBe(1);
+      expect(tasks.get(common[0])?.category).toBe('common');
+    });
+
+    test('should assign per-player task instances', () => {
+      const tasks = createAllTasks();
+      const assigned = assignTasksToPlayer(tasks, mix);
+
+      for (const instance of assigned) {
+        expect(instance).not.toBe(tasks.get(instance.id));
+        expect(instance.room).toBe(tasks.get(instance.id)!.room);
+        expect(instance.completedBy.size).toBe(0);
+      }
     });
 
     test('should assign requested number of tasks', () => {
       const tasks = createAllTasks();
-      const assigned = assignTasksToPlayer(tasks, 3);
+      const assigned = assignTasksToPlayer(tasks, { commonTaskIds: [], shortTasks: 3, longTasks: 0 });
       expect(assigned.length).toBe(3);
     });
 
     test('should handle requesting more tasks than available', () => {
       const tasks = createAllTasks();
-      const assigned = assignTasksToPlayer(tasks, 1000);
+      const assigned = assignTasksToPlayer(tasks, { commonTaskIds: [], shortTasks: 1000, longTasks: 1000 });
       expect(assigned.length).toBeLessThanOrEqual(tasks.size);
     });
   });
 
+  describe('Task Instances', () => {
+    // Deterministic sequence so randomized parameters are reproducible
+    const sequence = (...values: number[]) => {
+      let i = 0;
+      return () => values[i++ % values.length];
+    };
+
+    test('should randomize wire order', () => {
+      const tasks = createAllTasks();
+      const instance = createTaskInstance(tasks.get('wiring-electrical')!, sequence(0));
+
+      expect(instance.steps.map((s) => s.description)).toEqual([
+        'Connect blue wire',
+        'Connect yellow wire',
+        'Connect red wire'
+      ]);
+      expect(validateTaskCompletion(instance, 'red', 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, 'blue', 0).success).toBe(true);
+    });
+
+    test('should randomize reactor code', () => {
+      const tasks = createAllTasks();
+      const instance = createTaskInstance(tasks.get('reactor-unlock')!, sequence(0.5));
+
+      expect(instance.steps[0].description).toBe('Enter code: 5-5-5-5');
+      expect(validateTaskCompletion(instance, '1428', 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, '5-5-5-5', 0).success).toBe(true);
+    });
+
+    test('should randomize navigation coordinates', () => {
+      const tasks = createAllTasks();
+      const instance = createTaskInstance(tasks.get('navigation-course')!, sequence(0, 0, 0.5));
+
+      expect(instance.steps[0].description).toBe('Set coordinates: X=10, Y=55');
+      expect(validateTaskCompletion(instance, 'X=45, Y=72', 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, 'X=10, Y=55', 0).success).toBe(true);
+    });
+
+    test('should reject wiring input that names other wire colors', () => {
+      const tasks = createAllTasks();
+      const instance = createTaskInstance(tasks.get('wiring-electrical')!, sequence(0));
+
+      expect(validateTaskCompletion(instance, 'red blue yellow', 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, 'blue and green', 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, 'connect blue wire', 0).success).toBe(true);
+    });
+
+    test('should reject navigation input listing extra numbers', () => {
+      const tasks = createAllTasks();
+      const instance = createTaskInstance(tasks.get('navigation-course')!, sequence(0, 0, 0.5));
+      const everyNumber = Array.from({ length: 90 }, (_, i) => i + 10).join(' ');
+
+      expect(validateTaskCompletion(instance, everyNumber, 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, 'X=55, Y=10', 0).success).toBe(false);
+      expect(validateTaskCompletion(instance, 'X=10, Y=55, Z=3', 0).success).toBe(false);
+    });
+
+    test('should keep fixed steps for tasks without parameters', () => {
+      const tasks = createAllTasks();
+      const instance = createTaskInstance(tasks.get('medbay-scan')!);
+
+      expect(validateTaskCompletion(instance, 'scan', 0).success).toBe(true);
+    });
+  });
+
   describe('Task Validation', () => {
     test('should validate correct task input', () => {
       const tasks = createAllTasks();
@@ -163,6 +285,23 @@ describe('Tasks', () => {
       expect(progress.total).toBe(tasks.size);
       expect(progress.completed).toBe(2);
     });
+
+    test('should calculate crew task progress from assigned tasks', () => {
+      const players = [
+        { role: 'crewmate' as const, isAlive: true, taskIds: ['a', 'b'], completedTaskIds: ['a'] },
+        { role: 'crewmate' as const, isAlive: false, taskIds: ['a', 'c'], completedTaskIds: [] },
+        { role: 'imposter' as const, isAlive: true, taskIds: ['d'], completedTaskIds: [] }
+      ];
+
+      const withDead = getCrewTaskProgress(players, true);
+      expect(withDead.total).toBe(4);
+      expect(withDead.completed).toBe(1);
+      expect(withDead.percentage).toBe(25);
+
+      const aliveOnly = getCrewTaskProgress(players, false);
+      expect(aliveOnly.total).toBe(2);
+      expect(aliveOnly.percentage).toBe(50);
+    });
   });
 
   describe('Task Requirements', () => {
@@ -3,7 +3,90 @@
  * Defines all task types with their step-by-step validation
  */
 
-import type { GameTask, TaskType } from '@elizagames/shared';
+import type { GameTask, Player, TaskCategory, TaskStep, TaskType } from '@elizagames/shared';
+
+// How many of each category a crewmate receives
+export interface TaskMix {
+  commonTaskIds: string[];
+  shortTasks: number;
+  longTasks: number;
+}
+
+// Catalog parameters; per-player instances randomize these
+const ELECTRICAL_WIRES = ['red', 'blue', 'yellow'];
+const SECURITY_WIRES = ['green', 'pink'];
+const REACTOR_CODE = '1428';
+const NAVIGATION_COORDINATES = { x: 45, y: 72 };
+const WIRE_COLORS = [...ELECTRICAL_WIRES, ...SECURITY_WIRES];
+
+// ============================================================================
+// Step Builders
+// ============================================================================
+
+function wiringSteps(colors: string[]): TaskStep[] {
+  return colors.map((color) => ({
+    description: `Connect ${color} wire`,
+    duration: 2000,
+    validation: (input: string) => {
+      // Naming every color at once must not pass, so only the prompted one may appear
+      const words: string[] = input.toLowerCase().match(/[a-z]+/g) || [];
+      const named = WIRE_COLORS.filter((wire) => words.includes(wire));
+      return named.length === 1 && named[0] === color;
+    }
+  }));
+}
+
+function reactorSteps(code: string): TaskStep[] {
+  return [
+    {
+      description: `Enter code: ${code.split('').join('-')}`,
+      expectedInput: code,
+      duration: 3000,
+      validation: (input) => input.replace(/\D/g, '') === code
+    }
+  ];
+}
+
+function navigationSteps(x: number, y: number): TaskStep[] {
+  return [
+    {
+      description: `Set coordinates: X=${x}, Y=${y}`,
+      duration: 3000,
+      validation: (input) => {
+        const numbers = (input.match(/\d+/g) || []).map(Number);
+        return numbers.length === 2 && numbers[0] === x && numbers[1] === y;
+      }
+    }
+  ];
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  // Fisher-Yates shuffle for uniform random distribution
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function randomInt(min: number, max: number, random: () => number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+// Randomized steps for tasks whose answers would otherwise be fixed
+const RANDOMIZED_STEPS: Record<string, (random: () => number) => TaskStep[]> = {
+  'wiring-electrical': (random) => wiringSteps(shuffle(ELECTRICAL_WIRES, random)),
+  'wiring-security': (random) => wiringSteps(shuffle(SECURITY_WIRES, random)),
+  'reactor-unlock': (random) =>
+    reactorSteps(Array.from({ length: 4 }, () => randomInt(1, 9, random)).join('')),
+  'navigation-course': (random) => {
+    const x = randomInt(10, 99, random);
+    let y = randomInt(10, 99, random);
+    while (y === x) y = randomInt(10, 99, random);
+    return navigationSteps(x, y);
+  }
+};
 
 export function createAllTasks(): Map<string, GameTask> {
   const tasks = new Map<string, GameTask>();
@@ -15,22 +98,10 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('wiring-electrical', {
     id: 'wiring-electrical',
     type: 'wiring',
+    category: 'common',
     room: 'electrical',
     description: 'Connect colored wires in Electrical',
-    steps: [
-      {
-        description: 'Connect red wire',
-        validation: (input) => input.toLowerCase().includes('red')
-      },
-      {
-        description: 'Connect blue wire',
-        validation: (input) => input.toLowerCase().includes('blue')
-      },
-      {
-        description: 'Connect yellow wire',
-        validation: (input) => input.toLowerCase().includes('yellow')
-      }
-    ],
+    steps: wiringSteps(ELECTRICAL_WIRES),
     completedBy: new Set(),
     isMultiPart: false
   });
@@ -38,50 +109,45 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('wiring-security', {
     id: 'wiring-security',
     type: 'wiring',
+    category: 'common',
     room: 'security',
     description: 'Connect colored wires in Security',
-    steps: [
-      {
-        description: 'Connect green wire',
-        validation: (input) => input.toLowerCase().includes('green')
-      },
-      {
-        description: 'Connect pink wire',
-        validation: (input) => input.toLowerCase().includes('pink')
-      }
-    ],
+    steps: wiringSteps(SECURITY_WIRES),
     completedBy: new Set(),
     isMultiPart: false
   });
 
   // ============================================================================
-  // Fuel Tasks (two-part: download then upload)
+  // Fuel Tasks (long: download then upload)
   // ============================================================================
 
   tasks.set('fuel-download', {
     id: 'fuel-download',
     type: 'fuel-download',
+    category: 'long',
     room: 'storage',
     description: 'Download fuel data in Storage',
     steps: [
       {
         description: 'Start download',
+        duration: 8000,
         validation: (input) => input.toLowerCase().includes('download') || input.toLowerCase().includes('start')
       }
     ],
     completedBy: new Set(),
-    isMultiPart: true,
-    linkedTaskId: 'fuel-upload'
+    isMultiPart: true
   });
 
   tasks.set('fuel-upload', {
     id: 'fuel-upload',
     type: 'fuel-upload',
+    category: 'long',
     room: 'engine',
     description: 'Upload fuel data in Engine Room',
     steps: [
       {
         description: 'Upload fuel data',
+        duration: 8000,
         validation: (input) => input.toLowerCase().includes('upload')
       }
     ],
@@ -97,16 +163,19 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('medbay-scan', {
     id: 'medbay-scan',
     type: 'scan',
+    category: 'short',
     room: 'medbay',
     description: 'Submit to medical scan in MedBay',
     steps: [
       {
         description: 'Stand on scanner',
+        duration: 10000,
         validation: (input) => input.toLowerCase().includes('scan') || input.toLowerCase().includes('stand')
       }
     ],
     completedBy: new Set(),
-    isMultiPart: false
+    isMultiPart: false,
+    visual: true
   });
 
   // ============================================================================
@@ -116,15 +185,10 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('reactor-unlock', {
     id: 'reactor-unlock',
     type: 'reactor',
+    category: 'short',
     room: 'reactor',
     description: 'Enter reactor unlock sequence',
-    steps: [
-      {
-        description: 'Enter code: 1-4-2-8',
-        expectedInput: '1428',
-        validation: (input) => input.replace(/\D/g, '') === '1428'
-      }
-    ],
+    steps: reactorSteps(REACTOR_CODE),
     completedBy: new Set(),
     isMultiPart: false
   });
@@ -136,18 +200,10 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('navigation-course', {
     id: 'navigation-course',
     type: 'navigation',
+    category: 'short',
     room: 'navigation',
     description: 'Chart navigation course',
-    steps: [
-      {
-        description: 'Set coordinates: X=45, Y=72',
-        validation: (input) => {
-          const hasX = input.toLowerCase().includes('45') || input.toLowerCase().includes('x') && input.includes('45');
-          const hasY = input.toLowerCase().includes('72') || input.toLowerCase().includes('y') && input.includes('72');
-          return hasX && hasY;
-        }
-      }
-    ],
+    steps: navigationSteps(NAVIGATION_COORDINATES.x, NAVIGATION_COORDINATES.y),
     completedBy: new Set(),
     isMultiPart: false
   });
@@ -159,16 +215,19 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('weapons-asteroids', {
     id: 'weapons-asteroids',
     type: 'weapons',
+    category: 'short',
     room: 'weapons',
     description: 'Destroy asteroids',
     steps: [
       {
         description: 'Destroy 20 asteroids',
+        duration: 8000,
         validation: (input) => input.toLowerCase().includes('destroy') || input.toLowerCase().includes('shoot') || input.toLowerCase().includes('fire')
       }
     ],
     completedBy: new Set(),
-    isMultiPart: false
+    isMultiPart: false,
+    visual: true
   });
 
   // ============================================================================
@@ -178,11 +237,13 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('trash-cafeteria', {
     id: 'trash-cafeteria',
     type: 'trash-empty',
+    category: 'short',
     room: 'cafeteria',
     description: 'Empty trash chute in Cafeteria',
     steps: [
       {
         description: 'Pull trash lever',
+        duration: 3000,
         validation: (input) => input.toLowerCase().includes('pull') || input.toLowerCase().includes('empty') || input.toLowerCase().includes('trash')
       }
     ],
@@ -193,11 +254,13 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('trash-storage', {
     id: 'trash-storage',
     type: 'trash-empty',
+    category: 'short',
     room: 'storage',
     description: 'Empty trash in Storage',
     steps: [
       {
         description: 'Pull trash lever',
+        duration: 3000,
         validation: (input) => input.toLowerCase().includes('pull') || input.toLowerCase().includes('empty') || input.toLowerCase().includes('trash')
       }
     ],
@@ -212,16 +275,19 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('shields-prime', {
     id: 'shields-prime',
     type: 'shields-prime',
+    category: 'short',
     room: 'shields',
     description: 'Prime shields',
     steps: [
       {
         description: 'Tap all red hexagons',
+        duration: 3000,
         validation: (input) => input.toLowerCase().includes('tap') || input.toLowerCase().includes('prime') || input.toLowerCase().includes('hexagon')
       }
     ],
     completedBy: new Set(),
-    isMultiPart: false
+    isMultiPart: false,
+    visual: true
   });
 
   // ============================================================================
@@ -231,11 +297,13 @@ export function createAllTasks(): Map<string, GameTask> {
   tasks.set('engine-align', {
     id: 'engine-align',
     type: 'navigation',
+    category: 'short',
     room: 'engine',
     description: 'Align engine output',
     steps: [
       {
         description: 'Align engine to center position',
+        duration: 3000,
         validation: (input) => input.toLowerCase().includes('align') || input.toLowerCase().includes('center')
       }
     ],
@@ -244,22 +312,42 @@ export function createAllTasks(): Map<string, GameTask> {
   });
 
   // ============================================================================
-  // Download Tasks
+  // Data Transfer Tasks (long: download then upload)
   // ============================================================================
 
   tasks.set('download-electrical', {
     id: 'download-electrical',
-    type: 'fuel-download',
+    type: 'data-download',
+    category: 'long',
     room: 'electrical',
     description: 'Download data in Electrical',
     steps: [
       {
         description: 'Download data',
+        duration: 8000,
         validation: (input) => input.toLowerCase().includes('download')
       }
     ],
     completedBy: new Set(),
-    isMultiPart: false
+    isMultiPart: true
+  });
+
+  tasks.set('upload-cafeteria', {
+    id: 'upload-cafeteria',
+    type: 'data-upload',
+    category: 'long',
+    room: 'cafeteria',
+    description: 'Upload data in Cafeteria',
+    steps: [
+      {
+        description: 'Upload data',
+        duration: 8000,
+        validation: (input) => input.toLowerCase().includes('upload')
+      }
+    ],
+    completedBy: new Set(),
+    isMultiPart: true,
+    linkedTaskId: 'download-electrical'
   });
 
   return tasks;
@@ -269,20 +357,76 @@ export function createAllTasks(): Map<string, GameTask> {
 // Task Assignment Logic
 // ============================================================================
 
-export function assignTasksToPlayer(
+/**
+ * Copy a catalog task for one player, randomizing step parameters
+ * (wire order, codes, coordinates) where the task has any.
+ */
+export function createTaskInstance(task: GameTask, random: () => number = Math.random): GameTask {
+  const randomizeSteps = RANDOMIZED_STEPS[task.id];
+
+  return {
+    ...task,
+    steps: randomizeSteps ? randomizeSteps(random) : [...task.steps],
+    completedBy: new Set()
+  };
+}
+
+/**
+ * Tasks a crewmate can be handed for a category. Long tasks are
+ * represented by the first part of their chain.
+ */
+export function getTasksByCategory(allTasks: Map<string, GameTask>, category: TaskCategory): GameTask[] {
+  return Array.from(allTasks.values()).filter(
+    (task) => task.category === category && !(category === 'long' && task.linkedTaskId)
+  );
+}
+
+/**
+ * Every part of a long task, in order. Each later part's linkedTaskId
+ * names the part before it.
+ */
+export function getTaskChain(allTasks: Map<string, GameTask>, firstTaskId: string): string[] {
+  const chain = [firstTaskId];
+  let next = Array.from(allTasks.values()).find((task) => task.linkedTaskId === firstTaskId);
+
+  while (next && !chain.includes(next.id)) {
+    chain.push(next.id);
+    const current: string = next.id;
+    next = Array.from(allTasks.values()).find((task) => task.linkedTaskId === current);
+  }
+
+  return chain;
+}
+
+/**
+ * Common tasks are picked once per game and given to every crewmate.
+ */
+export function selectCommonTasks(
   allTasks: Map<string, GameTask>,
-  count: number
+  count: number,
+  random: () => number = Math.random
 ): string[] {
-  const availableTasks = Array.from(allTasks.keys());
-  
-  // Fisher-Yates shuffle for uniform random distribution
-  const shuffled = [...availableTasks];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  
-  return shuffled.slice(0, count);
+  return shuffle(getTasksByCategory(allTasks, 'common'), random)
+    .slice(0, count)
+    .map((task) => task.id);
+}
+
+export function assignTasksToPlayer(
+  allTasks: Map<string, GameTask>,
+  mix: TaskMix,
+  random: () => number = Math.random
+): GameTask[] {
+  const shortTaskIds = shuffle(getTasksByCategory(allTasks, 'short'), random)
+    .slice(0, mix.shortTasks)
+    .map((task) => task.id);
+  const longTaskIds = shuffle(getTasksByCategory(allTasks, 'long'), random)
+    .slice(0, mix.longTasks)
+    .flatMap((task) => getTaskChain(allTasks, task.id));
+
+  return [...mix.commonTaskIds, ...shortTaskIds, ...longTaskIds]
+    .map((taskId) => allTasks.get(taskId))
+    .filter((task): task is GameTask => task !== undefined)
+    .map((task) => createTaskInstance(task, random));
 }
 
 // ============================================================================
@@ -364,6 +508,29 @@ export function getAllTaskProgress(
   return { total: totalTasks, completed: completedTasks, percentage };
 }
 
+/**
+ * Task bar progress computed from each crewmate's assigned tasks.
+ * Dead crewmates' tasks are only counted when includeDead is set.
+ */
+export function getCrewTaskProgress(
+  players: Iterable<Pick<Player, 'role' | 'isAlive' | 'taskIds' | 'completedTaskIds'>>,
+  includeDead: boolean
+): { total: number; completed: number; percentage: number } {
+  let total = 0;
+  let completed = 0;
+
+  for (const player of players) {
+    if (player.role !== 'crewmate') continue;
+    if (!player.isAlive && !includeDead) continue;
+    total += player.taskIds.length;
+    completed += player.completedTaskIds.filter((id) => player.taskIds.includes(id)).length;
+  }
+
+  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  return { total, completed, percentage };
+}
+
 // ============================================================================
 // Task Requirements
 // ============================================================================
@@ -381,14 +548,12 @@ export function canCompleteTask(
     };
   }
 
-  // Check if linked task is required first
-  if (task.linkedTaskId && task.type === 'fuel-upload') {
-    if (!completedTaskIds.includes(task.linkedTaskId)) {
-      return {
-        canComplete: false,
-        reason: 'You must complete fuel download first'
-      };
-    }
+  // Later parts of a long task require the part before them
+  if (task.linkedTaskId && !completedTaskIds.includes(task.linkedTaskId)) {
+    return {
+      canComplete: false,
+      reason: `You must complete ${task.linkedTaskId.replace(/-/g, ' ')} first`
+    };
   }
 
   return { canComplete: true };
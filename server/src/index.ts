@@ -24,6 +24,7 @@ async function main() {
   const discussionMs = process.env.DISCUSSION_TIME_MS ? parseInt(process.env.DISCUSSION_TIME_MS, 10) : undefined;
   const votingMs = process.env.VOTING_TIME_MS ? parseInt(process.env.VOTING_TIME_MS, 10) : undefined;
   const killCooldownMs = process.env.KILL_COOLDOWN_MS ? parseInt(process.env.KILL_COOLDOWN_MS, 10) : undefined;
+  const emergencyCooldownMs = process.env.EMERGENCY_COOLDOWN_MS ? parseInt(process.env.EMERGENCY_COOLDOWN_MS, 10) : undefined;
   const minPlayers = process.env.MIN_PLAYERS ? parseInt(process.env.MIN_PLAYERS, 10) : undefined;
   const maxPlayers = process.env.MAX_PLAYERS ? parseInt(process.env.MAX_PLAYERS, 10) : undefined;
 
@@ -31,6 +32,7 @@ async function main() {
     ...(discussionMs !== undefined ? { discussionTime: discussionMs } : {}),
     ...(votingMs !== undefined ? { votingTime: votingMs } : {}),
     ...(killCooldownMs !== undefined ? { killCooldown: killCooldownMs } : {}),
+    ...(emergencyCooldownMs !== undefined ? { emergencyCooldown: emergencyCooldownMs } : {}),
     ...(minPlayers !== undefined ? { minPlayers } : {}),
     ...(maxPlayers !== undefined ? { maxPlayers } : {})
   };
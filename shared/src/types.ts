@@ -13,6 +13,20 @@ export type PlayerRole = 'crewmate' | 'imposter';
 
 export type WinnerType = 'crewmates' | 'imposters' | 'none';
 
+export type WinReason =
+  | 'tasks' // Crewmates finished the task bar
+  | 'parity' // Imposters equal or outnumber crewmates
+  | 'ejection' // Every imposter was voted out
+  | 'sabotage' // A critical sabotage was not fixed in time
+  | 'timeout' // Game time limit expired
+  | 'forfeit'; // Every imposter left the game
+
+export type TieResolution =
+  | 'no-ejection' // A tied vote ejects no one
+  | 'random'; // One of the tied options is picked at random (may be skip)
+
+export type SabotageSystem = 'oxygen' | 'reactor' | 'lights' | 'comms';
+
 export interface GameState {
   id: string;
   phase: GamePhase;
@@ -22,12 +36,22 @@ export interface GameState {
   imposterIds: Set<string>;
   tasks: Map<string, GameTask>;
   deadPlayers: Set<string>;
+  bodies: Map<string, DeadBody>; // victimId -> body left by a kill
   votes: Map<string, string>;
+  lockedVotes: Set<string>; // Voters who locked in their vote (vote changes mode)
+  readyToVote: Set<string>; // Players ready to end the current discussion early
+  chatLog: ChatMessage[]; // Discussion chat of the current (or most recent) meeting
+  sabotages: Map<SabotageSystem, ActiveSabotage>;
+  lastSabotageTime?: number; // Sabotage cooldown is shared by all imposters
+  lockedDoors: Map<string, number>; // roomId -> time the doors reopen
+  meetingButtonReadyAt?: number; // Emergency button cooldown, reset at game start and after each meeting
   discussionStartTime?: number;
   votingStartTime?: number;
   createdAt: number;
+  startedAt?: number;
   endedAt?: number;
   winner?: WinnerType;
+  winReason?: WinReason;
   meetingCaller?: string;
   reportedBody?: string;
 }
@@ -42,14 +66,67 @@ export interface Player {
   isAlive: boolean;
   taskIds: string[];
   completedTaskIds: string[];
+  tasks: Map<string, GameTask>; // Per-player task instances with randomized step inputs
   taskSteps: Map<string, number>; // Tracks current step for each multi-step task
+  activeTask?: ActiveTaskStep; // Step in progress; the player is locked in place
+  ventEnteredAt?: number; // Set while hiding inside a vent
   lastKillTime?: number;
+  diedAt?: number; // When the player was killed or ejected
+  lastChatTime?: number; // Last message on any channel, for chat rate limiting
   emergencyMeetingsUsed: number; // Track emergency meetings called (not body reports)
   contextId: string;
   taskId?: string;
   lastActionTime: number;
 }
 
+export interface ActiveTaskStep {
+  taskId: string;
+  step: number;
+  startedAt: number;
+  endsAt: number;
+}
+
+export interface DeadBody {
+  victimId: string;
+  room: string;
+  timeOfDeath: number;
+  // Killer is deliberately not recorded: a body never reveals who did it
+}
+
+export type ChatErrorCode =
+  | 'EMPTY_MESSAGE'
+  | 'MESSAGE_TOO_LONG'
+  | 'RATE_LIMITED' // Sent too soon after the previous message
+  | 'MESSAGE_LIMIT_REACHED' // Per-meeting message cap used up
+  | 'INVALID_CLAIM';
+
+export type ClaimType = 'accuse' | 'vouch' | 'alibi' | 'saw';
+
+// Machine-readable statement attached to a chat message
+export interface ChatClaim {
+  type: ClaimType;
+  subject?: string; // Player ID; required for accuse, vouch and saw
+  room?: string; // Room ID; required for alibi and saw
+  time?: number; // Seconds before the message
+}
+
+export interface ChatMessage {
+  senderId: string;
+  senderName: string;
+  message: string;
+  timestamp: number;
+  claim?: ChatClaim;
+}
+
+export interface ActiveSabotage {
+  system: SabotageSystem;
+  triggeredBy: string;
+  startedAt: number;
+  deadline?: number; // Only critical systems (oxygen, reactor) have a countdown
+  fixRooms: string[]; // Every room must be fixed to resolve the sabotage
+  fixedRooms: string[];
+}
+
 // ============================================================================
 // Ship Layout Types
 // ============================================================================
@@ -68,6 +145,27 @@ export interface Room {
   hasVent: boolean;
 }
 
+export type SecurityDevice = 'cameras' | 'admin-map' | 'vitals';
+
+export interface CameraFeed {
+  roomId: string;
+  roomName: string;
+  players: string[];
+}
+
+export interface AdminMapEntry {
+  roomId: string;
+  roomName: string;
+  playerCount: number;
+}
+
+export interface VitalsEntry {
+  playerId: string;
+  playerName: string;
+  isAlive: boolean;
+  secondsSinceDeath?: number;
+}
+
 // ============================================================================
 // Task Types
 // ============================================================================
@@ -76,6 +174,8 @@ export type TaskType =
   | 'wiring'
   | 'fuel-download'
   | 'fuel-upload'
+  | 'data-download'
+  | 'data-upload'
   | 'scan'
   | 'reactor'
   | 'navigation'
@@ -83,20 +183,28 @@ export type TaskType =
   | 'trash-empty'
   | 'shields-prime';
 
+export type TaskCategory =
+  | 'common' // Same tasks for every crewmate in a game
+  | 'short' // Single task in one room
+  | 'long'; // Chain of parts across several rooms
+
 export interface GameTask {
   id: string;
   type: TaskType;
+  category: TaskCategory;
   room: string;
   description: string;
   steps: TaskStep[];
   completedBy: Set<string>;
   isMultiPart: boolean;
-  linkedTaskId?: string;
+  linkedTaskId?: string; // Previous part of a long task chain
+  visual?: boolean; // Completion is seen by everyone in the room
 }
 
 export interface TaskStep {
   description: string;
   expectedInput?: string;
+  duration?: number; // ms the step takes once started; instant when omitted
   validation: (input: string) => boolean;
 }
 
@@ -135,7 +243,8 @@ export interface VentAction extends GameAction {
 
 export interface SabotageAction extends GameAction {
   type: 'sabotage';
-  system: 'oxygen' | 'reactor' | 'lights' | 'comms';
+  system: SabotageSystem | 'doors';
+  targetRoom?: string; // Required for doors
 }
 
 export interface MeetingAction extends GameAction {
@@ -164,27 +273,39 @@ export type GameEventType =
   | 'game-started'
   | 'role-assigned'
   | 'player-moved'
+  | 'player-entered-room'
+  | 'player-exited-room'
   | 'task-completed'
+  | 'visual-task-observed'
   | 'player-killed'
+  | 'kill-witnessed'
   | 'body-reported'
   | 'meeting-called'
   | 'discussion-started'
+  | 'player-ready'
   | 'voting-started'
   | 'vote-cast'
+  | 'vote-retracted'
+  | 'vote-locked'
+  | 'voting-results'
   | 'player-ejected'
   | 'game-ended'
   | 'chat-message'
   | 'sabotage-triggered'
   | 'sabotage-fixed'
+  | 'doors-locked'
+  | 'doors-opened'
   | 'vent-used'
+  | 'vent-witnessed'
+  | 'device-used'
   | 'emergency-meeting';
 
 export interface GameEvent {
   type: GameEventType;
   gameId: string;
   timestamp: number;
-  data: Record<string, string | number | boolean | string[]>;
-  visibility: 'all' | 'imposters' | 'specific';
+  data: Record<string, string | number | boolean | string[] | Record<string, string | number>>;
+  visibility: 'all' | 'imposters' | 'ghosts' | 'specific';
   specificPlayers?: string[];
 }
 
@@ -256,11 +377,32 @@ export interface GameConfig {
   minPlayers: number;
   maxPlayers: number;
   imposterRatio: number;
-  taskCount: number;
+  commonTasks: number; // Common tasks shared by every crewmate
+  shortTasks: number;
+  longTasks: number; // Each long task adds every part of its chain
   killCooldown: number;
   discussionTime: number;
+  discussionReadyFraction: number; // Share of living players whose ready signal ends discussion early; 0 disables
   votingTime: number;
+  anonymousVotes: boolean; // Hide who voted for whom
+  confirmEjects: boolean; // Reveal whether the ejected player was an imposter
+  tieResolution: TieResolution;
+  allowVoteChanges: boolean; // Votes can be changed or retracted until locked in or voting ends
+  chatMaxLength: number; // Characters per message, after sanitization
+  chatMaxMessagesPerMeeting: number; // Per player; 0 disables the cap
+  chatMinInterval: number; // Between a player's messages on any channel; 0 disables
   emergencyMeetings: number;
+  emergencyCooldown: number; // Emergency button cooldown after game start and each meeting
+  criticalSabotageTime: number;
+  sabotageCooldown: number;
+  doorLockTime: number;
+  maxVentTime: number; // Imposters are pushed out of a vent after this long; 0 disables
+  cameraRooms: string[]; // Rooms visible on the Security cameras
+  adminMapRoom: string; // Room holding the admin map table
+  taskDurationMultiplier: number; // Scales task step durations; 0 makes every step instant
+  countDeadCrewmateTasks: boolean; // Whether ghosts' tasks count toward the task bar
+  timeLimit: number; // 0 disables the time limit
+  timeLimitWinner: WinnerType; // Who wins when the time limit expires
 }
 
 export interface ContractAddresses {
@@ -309,11 +451,32 @@ export const DEFAULT_GAME_CONFIG: GameConfig = {
   minPlayers: 5,
   maxPlayers: 10,
   imposterRatio: 0.2,
-  taskCount: 5, // Each crewmate gets 5 random tasks (13 total tasks available)
+  commonTasks: 1,
+  shortTasks: 2,
+  longTasks: 1, // 1 common + 2 short + a 2-part long task = 5 tasks per crewmate
   killCooldown: 30000, // 30 seconds
   discussionTime: 60000, // 60 seconds
+  discussionReadyFraction: 1, // Everyone alive
   votingTime: 30000, // 30 seconds
-  emergencyMeetings: 1
+  anonymousVotes: false,
+  confirmEjects: true,
+  tieResolution: 'no-ejection',
+  allowVoteChanges: false,
+  chatMaxLength: 300,
+  chatMaxMessagesPerMeeting: 10,
+  chatMinInterval: 2000, // 2 seconds
+  emergencyMeetings: 1,
+  emergencyCooldown: 15000, // 15 seconds
+  criticalSabotageTime: 45000, // 45 seconds to fix oxygen/reactor
+  sabotageCooldown: 30000, // 30 seconds
+  doorLockTime: 10000, // 10 seconds
+  maxVentTime: 30000, // 30 seconds
+  cameraRooms: ['cafeteria', 'upper-hallway', 'lower-hallway', 'navigation'],
+  adminMapRoom: 'storage',
+  taskDurationMultiplier: 1,
+  countDeadCrewmateTasks: true,
+  timeLimit: 0, // No time limit
+  timeLimitWinner: 'imposters'
 };
 
 export const ROOM_NAMES = [